@@ -16,49 +16,29 @@ async function main() {
   const coffeeStore = 'https://1paying-coffee.zensh.workers.dev'
 
   console.log('Welcome to the 1Paying Coffee CLI!')
-  let response = await fetch(`${coffeeStore}/api/make-coffee`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' }
-  })
-
-  console.log(`Initial response status: ${response.status}`)
-  const { payUrl, txid } = await payingKit.tryGetPayUrl(response)
-  if (payUrl && txid) {
-    // Payment is required, handle it with the kit
-    const _answer = await rl.question(
-      `Press ENTER to open in the browser...\n${payUrl} (Enter)`
-    )
-
-    // Redirect user to sign the payment
-    exec(`open "${payUrl}"`)
-
-    try {
-      const payloadHeader = await payingKit.waitForPaymentPayload(txid, {
-        onprogress: (state) => {
-          process.stdout.write(`\rPayment status: ${state.status}`)
-        }
-      })
-
-      // Now you can retry the original request with the payment payload
-      // typically in 'PAYMENT-SIGNATURE' header.
-      response = await fetch(`${coffeeStore}/api/make-coffee`, {
-        method: 'POST',
-        headers: {
-          'PAYMENT-SIGNATURE': payloadHeader
-        }
-      })
-      // Optionally submit the settle result back to 1pay.ing for better analytics
-      await payingKit
-        .submitSettleResult(txid, response.headers)
-        .catch((err) => {
-          // Ignore settle submission errors
-          console.error('Settle submission error:', err)
-        })
-    } catch (error) {
-      console.error('Payment failed or timed out:', error)
-      throw error
+  // payingKit.fetch handles the 402 Payment Required flow and retries
+  // the request with the payment payload.
+  const response = await payingKit.fetch(
+    `${coffeeStore}/api/make-coffee`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' }
+    },
+    {
+      openPayUrl: async (payUrl) => {
+        // Payment is required, handle it with the kit
+        const _answer = await rl.question(
+          `Press ENTER to open in the browser...\n${payUrl} (Enter)`
+        )
+
+        // Redirect user to sign the payment
+        exec(`open "${payUrl}"`)
+      },
+      onprogress: (state) => {
+        process.stdout.write(`\rPayment status: ${state.status}`)
+      }
     }
-  }
+  )
 
   rl.close()
   // Process the successful response
@@ -1,9 +1,10 @@
-import { stringToBase64 } from '@ldclabs/1paying-kit/utils'
+import { decodePaymentResponseHeader } from '@ldclabs/1paying-kit/header'
+import { requiredAmount } from '@ldclabs/1paying-kit/policy'
+import { requirePayment } from '@ldclabs/1paying-kit/server'
 import { DurableObject } from 'cloudflare:workers'
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { jsonResponse } from './types'
-import { settlePayment } from './x402'
 
 /**
  * Welcome to Cloudflare Workers! This is your first Durable Objects application.
@@ -41,7 +42,11 @@ export class CoffeeStore extends DurableObject {
 		`)
 	}
 
-	async makeCoffee(order: CoffeeOrder): Promise<string> {
+	async makeCoffee(payer: string): Promise<string> {
+		return `Here's your coffee, ${payer}!`
+	}
+
+	async recordOrder(order: CoffeeOrder): Promise<void> {
 		this.#sql.exec(
 			`INSERT INTO coffee_order (
 				payer,
@@ -63,8 +68,6 @@ export class CoffeeStore extends DurableObject {
 			order.transaction,
 			order.network
 		)
-
-		return `Here's your coffee, ${order.payer}!`
 	}
 
 	async getOrders(
@@ -125,33 +128,58 @@ const app = new Hono<{
 
 app.get('/api/my-coffee', cors())
 
+// The cup sizes in percent of the authorized amount, charged for `upto` payments.
+const CUP_SIZES: Record<string, bigint> = {
+	tall: 60n,
+	grande: 80n,
+	venti: 100n
+}
+
 app.post('/api/make-coffee', async (ctx) => {
-	const result = await settlePayment(ctx)
-	const stub = ctx.env.COFFEE_STORE.getByName(result.paymentRequirements.payTo)
-	const order: CoffeeOrder = {
-		payer: result.settleResponse.payer || '',
-		asset: result.paymentRequirements.asset,
-		amountRequired:
-			'maxAmountRequired' in result.paymentRequirements
-				? (result.paymentRequirements.maxAmountRequired as string)
-				: result.paymentRequirements.amount,
-		transaction: result.settleResponse.transaction,
-		network: result.paymentRequirements.network
+	const size = ctx.req.query('size') ?? 'venti'
+	const share = CUP_SIZES[size]
+	if (!share) {
+		return jsonResponse({ error: `Unknown cup size ${size}` }, 400)
 	}
-	const coffeeMessage = await stub.makeCoffee(order)
-
-	return jsonResponse(
-		{
-			result: {
-				message: coffeeMessage,
-				merchant: result.paymentRequirements.payTo
-			}
-		},
-		200,
-		{
-			'PAYMENT-RESPONSE': stringToBase64(JSON.stringify(result.settleResponse))
+
+	const middleware = requirePayment(ctx.env.X402_PAYMENT_REQUIRED, {
+		facilitators: ctx.env.X402_FACILITATORS,
+		// Verify the payment, make the coffee and only then settle what was served.
+		verifyFirst: true
+	})
+	// The order of the served coffee, recorded once the payment is settled.
+	const served: { payTo?: string; order?: Omit<CoffeeOrder, 'transaction'> } =
+		{}
+	const res = await middleware(ctx.req.raw, async (_, payment) => {
+		const req = payment.paymentRequirements
+		if (req.scheme === 'upto') {
+			payment.charge((requiredAmount(req) * share) / 100n)
 		}
-	)
+		const payer = payment.payer ?? ''
+		const message = await ctx.env.COFFEE_STORE.getByName(req.payTo).makeCoffee(
+			payer
+		)
+		served.payTo = req.payTo
+		served.order = {
+			payer,
+			asset: req.asset,
+			amountRequired: requiredAmount(req).toString(),
+			network: req.network
+		}
+		return jsonResponse({ result: { message, merchant: req.payTo } })
+	})
+
+	const header = res.headers.get('PAYMENT-RESPONSE')
+	if (served.payTo && served.order && res.ok && header) {
+		const settle = decodePaymentResponseHeader(header)
+		await ctx.env.COFFEE_STORE.getByName(served.payTo).recordOrder({
+			...served.order,
+			// The charged amount, less than the maximum for smaller cups of `upto` payments.
+			amountRequired: settle.amount ?? served.order.amountRequired,
+			transaction: settle.transaction
+		})
+	}
+	return res
 })
 
 app.get('/api/my-coffee', async (ctx) => {
@@ -1,15 +1,3 @@
-import type {
-	PaymentPayload,
-	PaymentRequirements,
-	SettleResponse
-} from '@ldclabs/1paying-kit/types'
-
-export interface X402PaymentResult<T> {
-	paymentPayload: PaymentPayload<T>
-	paymentRequirements: PaymentRequirements
-	settleResponse: SettleResponse
-}
-
 const JSON_HEADERS = {
 	'content-type': 'application/json'
 }
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AssetRegistry,
+  assetRegistry,
+  formatAmount,
+  parseAmount,
+  type PaymentRequirements
+} from './index.js'
+
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+
+const requirements: PaymentRequirements = {
+  scheme: 'exact',
+  network: 'eip155:84532',
+  amount: '10000',
+  asset: USDC,
+  payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+  maxTimeoutSeconds: 60
+}
+
+describe('formatAmount', () => {
+  it('formats atomic units without losing precision', () => {
+    expect(formatAmount('1500000', 6)).toBe('1.5')
+    expect(formatAmount('10000', 6)).toBe('0.01')
+    expect(formatAmount(0n, 8)).toBe('0')
+    expect(formatAmount('-1', 6)).toBe('-0.000001')
+    expect(formatAmount('123456789012345678901234567890', 18)).toBe(
+      '123456789012.34567890123456789'
+    )
+    expect(formatAmount('42', 0)).toBe('42')
+    expect(
+      formatAmount('1234567', 6, { minFractionDigits: 2, maxFractionDigits: 2 })
+    ).toBe('1.23')
+    expect(formatAmount('1000000', 6, { minFractionDigits: 2 })).toBe('1.00')
+    expect(() => formatAmount('1e6', 6)).toThrow(/Invalid amount/)
+  })
+})
+
+describe('parseAmount', () => {
+  it('parses whole tokens into atomic units', () => {
+    expect(parseAmount('1.5', 6)).toBe(1500000n)
+    expect(parseAmount('.01', 6)).toBe(10000n)
+    expect(parseAmount('2', 8)).toBe(200000000n)
+    expect(parseAmount('0.1000000', 6)).toBe(100000n)
+    expect(parseAmount('-0.5', 6)).toBe(-500000n)
+    expect(parseAmount('123456789012.34567890123456789', 18)).toBe(
+      123456789012345678901234567890n
+    )
+    expect(() => parseAmount('0.0000001', 6)).toThrow(/at most 6 decimals/)
+    expect(() => parseAmount('1,5', 6)).toThrow(/decimal number/)
+    expect(() => parseAmount('.', 6)).toThrow(/decimal number/)
+  })
+})
+
+describe('AssetRegistry', () => {
+  it('looks up known assets by network and asset', () => {
+    expect(assetRegistry.get('eip155:84532', USDC.toLowerCase())).toEqual({
+      network: 'eip155:84532',
+      asset: USDC,
+      symbol: 'USDC',
+      name: 'USDC (Base Sepolia)',
+      decimals: 6
+    })
+    expect(
+      assetRegistry.get(
+        'solana',
+        'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+      )
+    ).toMatchObject({ symbol: 'USDC', decimals: 6 })
+    expect(
+      assetRegistry.get('icp:1', 'ryjl3-tyaaa-aaaaa-aaaba-cai')
+    ).toMatchObject({ symbol: 'ICP', decimals: 8 })
+    expect(assetRegistry.get('eip155:8453', USDC)).toBeNull()
+
+    expect(assetRegistry.formatAmount(requirements)).toBe('0.01 USDC')
+    expect(
+      assetRegistry.formatAmount({
+        scheme: 'exact',
+        network: 'base-sepolia',
+        maxAmountRequired: '1234567',
+        asset: USDC,
+        payTo: requirements.payTo,
+        resource: 'https://shop.example.com/api/make-coffee',
+        description: '',
+        maxTimeoutSeconds: 60
+      })
+    ).toBe('1.234567 USDC')
+    expect(assetRegistry.parseAmount('eip155:84532', USDC, '0.25')).toBe(
+      250000n
+    )
+  })
+
+  it('registers assets and reads the extra of payment options', () => {
+    const registry = new AssetRegistry([])
+    const token = { ...requirements, asset: '0xToken', amount: '2500' }
+    expect(registry.resolve(token)).toBeNull()
+    expect(registry.formatAmount(token)).toBe('2500 0xToken')
+    expect(() => registry.parseAmount('eip155:84532', '0xToken', '1')).toThrow(
+      /Unknown asset/
+    )
+
+    expect(
+      registry.resolve({ ...token, extra: { name: 'Coffee', decimals: 2 } })
+    ).toEqual({
+      network: 'eip155:84532',
+      asset: '0xToken',
+      symbol: 'Coffee',
+      name: 'Coffee',
+      decimals: 2
+    })
+
+    registry.register({
+      network: 'base-sepolia',
+      asset: '0xToken',
+      symbol: 'BEAN',
+      name: 'Coffee Bean',
+      decimals: 3
+    })
+    expect(registry.list()).toHaveLength(1)
+    expect(registry.formatAmount(token)).toBe('2.5 BEAN')
+    expect(registry.parseAmount('eip155:84532', '0xtoken', '1')).toBe(1000n)
+    expect(() =>
+      registry.register({
+        network: 'eip155:84532',
+        asset: '0xToken',
+        symbol: 'BEAN',
+        name: 'Coffee Bean',
+        decimals: 1.5
+      })
+    ).toThrow(/Invalid decimals/)
+  })
+})
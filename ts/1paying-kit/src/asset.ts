@@ -0,0 +1,307 @@
+import { PayingKitError } from './errors.js'
+import type { PaymentRequirements, PaymentRequirementsV1 } from './types.js'
+
+/**
+ * The display metadata of a payment asset on a network.
+ */
+export interface AssetInfo {
+  /** The CAIP-2 network identifier, e.g. `eip155:8453`. */
+  network: string
+  /** The asset address, mint or ledger canister id. */
+  asset: string
+  /** The ticker symbol, e.g. `USDC`. */
+  symbol: string
+  /** The human readable name, e.g. `USD Coin`. */
+  name: string
+  /** The number of decimals of the atomic unit. */
+  decimals: number
+}
+
+/**
+ * Options for formatting amounts.
+ */
+export interface FormatAmountOptions {
+  /** The minimum number of fraction digits, padded with zeros. Defaults to 0. */
+  minFractionDigits?: number
+  /** The maximum number of fraction digits, further digits are truncated. Defaults to all decimals. */
+  maxFractionDigits?: number
+}
+
+// The CAIP-2 identifiers of the legacy x402 v1 network names.
+const LEGACY_NETWORKS: Record<string, string> = {
+  base: 'eip155:8453',
+  'base-sepolia': 'eip155:84532',
+  solana: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+  'solana-devnet': 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+  icp: 'icp:1'
+}
+
+/**
+ * The assets known to a new AssetRegistry: USDC on Base and Solana and the ICP ledgers.
+ */
+export const KNOWN_ASSETS: readonly AssetInfo[] = [
+  {
+    network: 'eip155:8453',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6
+  },
+  {
+    network: 'eip155:84532',
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    symbol: 'USDC',
+    name: 'USDC (Base Sepolia)',
+    decimals: 6
+  },
+  {
+    network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+    asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6
+  },
+  {
+    network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+    asset: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    symbol: 'USDC',
+    name: 'USDC (Devnet)',
+    decimals: 6
+  },
+  {
+    network: 'icp:1',
+    asset: 'ryjl3-tyaaa-aaaaa-aaaba-cai',
+    symbol: 'ICP',
+    name: 'Internet Computer',
+    decimals: 8
+  },
+  {
+    network: 'icp:1',
+    asset: 'xevnm-gaaaa-aaaar-qafnq-cai',
+    symbol: 'ckUSDC',
+    name: 'ckUSDC',
+    decimals: 6
+  },
+  {
+    network: 'icp:1',
+    asset: 'cngnf-vqaaa-aaaar-qag4q-cai',
+    symbol: 'ckUSDT',
+    name: 'ckUSDT',
+    decimals: 6
+  },
+  {
+    network: 'icp:1',
+    asset: 'mxzaz-hqaaa-aaaar-qaada-cai',
+    symbol: 'ckBTC',
+    name: 'ckBTC',
+    decimals: 8
+  },
+  {
+    network: 'icp:1',
+    asset: 'druyg-tyaaa-aaaaq-aactq-cai',
+    symbol: 'PANDA',
+    name: 'ICPanda',
+    decimals: 8
+  }
+]
+
+/**
+ * A registry of payment assets keyed by network and asset, to display amounts of
+ * payment requirements in whole tokens. Legacy x402 v1 network names are resolved to
+ * their CAIP-2 identifiers and EVM addresses are matched case-insensitively.
+ */
+export class AssetRegistry {
+  #assets = new Map<string, AssetInfo>()
+
+  /**
+   * Creates a registry.
+   * @param assets The initial assets, the known assets by default.
+   */
+  constructor(assets: readonly AssetInfo[] = KNOWN_ASSETS) {
+    for (const info of assets) {
+      this.register(info)
+    }
+  }
+
+  /**
+   * Adds an asset, replacing an earlier one with the same network and asset.
+   * @param info The asset metadata.
+   * @returns The registry.
+   * @throws {PayingKitError} With code `INVALID_CONFIG` if the decimals are not a non-negative integer.
+   */
+  register(info: AssetInfo): this {
+    if (!Number.isInteger(info.decimals) || info.decimals < 0) {
+      throw new PayingKitError(
+        'INVALID_CONFIG',
+        `Invalid decimals of asset ${info.asset}: ${info.decimals}`
+      )
+    }
+    const network = normalizeNetwork(info.network)
+    this.#assets.set(assetKey(network, info.asset), { ...info, network })
+    return this
+  }
+
+  /**
+   * Returns the metadata of a registered asset.
+   * @param network The CAIP-2 network identifier or a legacy x402 v1 network name.
+   * @param asset The asset address.
+   * @returns The asset metadata, or null if it is not registered.
+   */
+  get(network: string, asset: string): AssetInfo | null {
+    const info = this.#assets.get(assetKey(normalizeNetwork(network), asset))
+    return info ? { ...info } : null
+  }
+
+  /**
+   * Lists the registered assets.
+   * @returns The asset metadata.
+   */
+  list(): AssetInfo[] {
+    return [...this.#assets.values()].map((info) => ({ ...info }))
+  }
+
+  /**
+   * Returns the metadata of the asset of a payment option. `extra.name` and `extra.decimals`
+   * of the option take precedence over the registered metadata.
+   * @param req The payment option.
+   * @returns The asset metadata, or null if the decimals are unknown.
+   */
+  resolve(req: PaymentRequirements | PaymentRequirementsV1): AssetInfo | null {
+    const info = this.get(req.network, req.asset)
+    const extra = (req.extra ?? {}) as Record<string, unknown>
+    const name =
+      typeof extra['name'] === 'string' && extra['name']
+        ? extra['name']
+        : info?.name
+    const decimals =
+      Number.isInteger(extra['decimals']) && (extra['decimals'] as number) >= 0
+        ? (extra['decimals'] as number)
+        : info?.decimals
+    if (decimals === undefined) {
+      return null
+    }
+    return {
+      network: normalizeNetwork(req.network),
+      asset: req.asset,
+      symbol: info?.symbol ?? name ?? req.asset,
+      name: name ?? req.asset,
+      decimals
+    }
+  }
+
+  /**
+   * Formats the amount of a payment option in whole tokens, e.g. `0.01 USDC`.
+   * @param req The payment option.
+   * @param options The formatting options.
+   * @returns The formatted amount, or the atomic amount and the asset if the asset is unknown.
+   */
+  formatAmount(
+    req: PaymentRequirements | PaymentRequirementsV1,
+    options?: FormatAmountOptions
+  ): string {
+    const amount =
+      'maxAmountRequired' in req ? req.maxAmountRequired : req.amount
+    const info = this.resolve(req)
+    if (!info) {
+      return `${amount} ${req.asset}`
+    }
+    return `${formatAmount(amount, info.decimals, options)} ${info.symbol}`
+  }
+
+  /**
+   * Parses an amount in whole tokens of a registered asset into atomic units.
+   * @param network The CAIP-2 network identifier or a legacy x402 v1 network name.
+   * @param asset The asset address.
+   * @param value The amount in whole tokens, e.g. `0.01`.
+   * @returns The amount in atomic units.
+   * @throws {PayingKitError} With code `INVALID_AMOUNT` if the asset is unknown or the value is invalid.
+   */
+  parseAmount(network: string, asset: string, value: string): bigint {
+    const info = this.get(network, asset)
+    if (!info) {
+      throw new PayingKitError(
+        'INVALID_AMOUNT',
+        `Unknown asset ${asset} on ${network}`
+      )
+    }
+    return parseAmount(value, info.decimals)
+  }
+}
+
+/**
+ * The default asset registry with the known assets.
+ */
+export const assetRegistry = new AssetRegistry()
+
+/**
+ * Formats an amount in atomic units as a decimal string in whole tokens, without
+ * losing precision, e.g. `1500000` with 6 decimals as `1.5`.
+ * @param amount The amount in atomic units.
+ * @param decimals The number of decimals of the asset.
+ * @param options The formatting options.
+ * @returns The formatted amount.
+ * @throws {PayingKitError} With code `INVALID_AMOUNT` if the amount is not an integer.
+ */
+export function formatAmount(
+  amount: string | bigint,
+  decimals: number,
+  options: FormatAmountOptions = {}
+): string {
+  if (typeof amount === 'string' && !/^-?\d+$/.test(amount)) {
+    throw new PayingKitError(
+      'INVALID_AMOUNT',
+      `Invalid amount ${amount}, expected an integer in atomic units`
+    )
+  }
+  const value = BigInt(amount)
+  const digits = (value < 0n ? -value : value)
+    .toString()
+    .padStart(decimals + 1, '0')
+  const whole = digits.slice(0, digits.length - decimals)
+  const max = Math.min(options.maxFractionDigits ?? decimals, decimals)
+  const min = Math.min(options.minFractionDigits ?? 0, max)
+  let fraction = digits.slice(
+    digits.length - decimals,
+    digits.length - decimals + max
+  )
+  fraction = fraction.replace(/0+$/, '').padEnd(min, '0')
+  return `${value < 0n ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`
+}
+
+/**
+ * Parses an amount in whole tokens into atomic units without losing precision,
+ * e.g. `1.5` with 6 decimals as `1500000n`.
+ * @param value The amount in whole tokens.
+ * @param decimals The number of decimals of the asset.
+ * @returns The amount in atomic units.
+ * @throws {PayingKitError} With code `INVALID_AMOUNT` if the value is not a decimal number or has more fraction digits than decimals.
+ */
+export function parseAmount(value: string, decimals: number): bigint {
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(value.trim())
+  if (!match || (!match[2] && !match[3])) {
+    throw new PayingKitError(
+      'INVALID_AMOUNT',
+      `Invalid amount ${value}, expected a decimal number`
+    )
+  }
+  const [, sign, whole = '', fraction = ''] = match
+  const trimmed = fraction.replace(/0+$/, '')
+  if (trimmed.length > decimals) {
+    throw new PayingKitError(
+      'INVALID_AMOUNT',
+      `Invalid amount ${value}, expected at most ${decimals} decimals`
+    )
+  }
+  const atomic = BigInt(`${whole || '0'}${trimmed.padEnd(decimals, '0')}`)
+  return sign ? -atomic : atomic
+}
+
+function normalizeNetwork(network: string): string {
+  return LEGACY_NETWORKS[network] ?? network
+}
+
+function assetKey(network: string, asset: string): string {
+  return network.startsWith('eip155:')
+    ? `${network}/${asset.toLowerCase()}`
+    : `${network}/${asset}`
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { backoffDelay, parseRetryAfter, sleep } from './backoff.js'
+import { PayingKit } from './index.js'
+
+describe('backoff helpers', () => {
+  it('grows the delay exponentially up to the maximum', () => {
+    const options = { pollIntervalMs: 1000, maxPollIntervalMs: 3000 }
+    const noJitter = () => 0.5
+    expect(backoffDelay(1, options, noJitter)).toBe(1000)
+    expect(backoffDelay(2, options, noJitter)).toBe(1500)
+    expect(backoffDelay(3, options, noJitter)).toBe(2250)
+    expect(backoffDelay(4, options, noJitter)).toBe(3000)
+
+    expect(backoffDelay(1, options, () => 0)).toBe(800)
+    expect(backoffDelay(1, { ...options, jitter: 0 }, () => 0)).toBe(1000)
+  })
+
+  it('parses Retry-After seconds and dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+    expect(parseRetryAfter('3', now)).toBe(3000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000)
+    expect(parseRetryAfter('soon', now)).toBeNull()
+    expect(parseRetryAfter(null, now)).toBeNull()
+  })
+
+  it('rejects a sleep when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const start = Date.now()
+    setTimeout(() => controller.abort(), 10)
+    await expect(sleep(10000, controller.signal)).rejects.toThrow()
+    expect(Date.now() - start).toBeLessThan(1000)
+  })
+})
+
+describe('PayingKit#waitForPaymentPayload polling', () => {
+  const fastPolling = { initialDelayMs: 0, pollIntervalMs: 1, jitter: 0 }
+
+  it('retries network errors and 5xx responses', async () => {
+    const responses: (() => Response)[] = [
+      () => {
+        throw new TypeError('fetch failed')
+      },
+      () => new Response('busy', { status: 503 }),
+      () => new Response('not found', { status: 404 }),
+      () => Response.json({ status: 'completed', result: 'cGF5bG9hZA' })
+    ]
+    const kit = new PayingKit({
+      transport: 'polling',
+      fetch: async () => responses.shift()!()
+    })
+    const states: string[] = []
+    const result = await kit.waitForPaymentPayload('tx', {
+      ...fastPolling,
+      onprogress: (state) => states.push(`${state.attempt}:${state.status}`)
+    })
+    expect(result).toBe('cGF5bG9hZA')
+    expect(states).toEqual(['1:pending', '2:pending', '3:pending'])
+  })
+
+  it('gives up after maxRetries consecutive failures', async () => {
+    let calls = 0
+    const kit = new PayingKit({
+      transport: 'polling',
+      fetch: async () => {
+        calls += 1
+        return new Response('down', {
+          status: 500,
+          headers: { 'Retry-After': '0' }
+        })
+      }
+    })
+    await expect(
+      kit.waitForPaymentPayload('tx', { ...fastPolling, maxRetries: 2 })
+    ).rejects.toThrow('after 2 attempts')
+    expect(calls).toBe(2)
+  })
+
+  it('fails fast on other client errors', async () => {
+    const kit = new PayingKit({
+      fetch: async () => new Response('bad txid', { status: 400 })
+    })
+    await expect(kit.waitForPaymentPayload('tx', fastPolling)).rejects.toThrow(
+      'bad txid'
+    )
+  })
+
+  it('aborts during the initial delay', async () => {
+    const kit = new PayingKit({
+      fetch: async () => Response.json({ status: 'pending' })
+    })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+    await expect(
+      kit.waitForPaymentPayload('tx', { signal: controller.signal })
+    ).rejects.toThrow()
+  })
+})
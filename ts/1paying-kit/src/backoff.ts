@@ -0,0 +1,91 @@
+/**
+ * Options for the exponential backoff between polling attempts.
+ */
+export interface BackoffOptions {
+  /**
+   * The delay in milliseconds before the second attempt.
+   * @default 2000 (2 seconds)
+   */
+  pollIntervalMs?: number
+  /**
+   * The upper bound of the delay in milliseconds.
+   * @default 10000 (10 seconds)
+   */
+  maxPollIntervalMs?: number
+  /**
+   * The factor by which the delay grows after each attempt.
+   * @default 1.5
+   */
+  backoffFactor?: number
+  /**
+   * The random jitter applied to each delay, as a fraction of the delay (0 to 1),
+   * so that many clients do not poll in lockstep.
+   * @default 0.2
+   */
+  jitter?: number
+}
+
+/**
+ * Computes the delay before the next attempt with exponential backoff and jitter.
+ * @param attempt The number of attempts made so far, starting at 1.
+ * @param options The backoff options.
+ * @param random A random number generator returning values in [0, 1).
+ * @returns The delay in milliseconds.
+ */
+export function backoffDelay(
+  attempt: number,
+  options: BackoffOptions = {},
+  random: () => number = Math.random
+): number {
+  const base = options.pollIntervalMs ?? 2000
+  const max = options.maxPollIntervalMs ?? 10000
+  const factor = options.backoffFactor ?? 1.5
+  const jitter = Math.min(Math.max(options.jitter ?? 0.2, 0), 1)
+  const delay = Math.min(max, base * factor ** Math.max(attempt - 1, 0))
+  return Math.max(0, Math.round(delay * (1 + jitter * (random() * 2 - 1))))
+}
+
+/**
+ * Parses a `Retry-After` header value.
+ * @param value The header value, either delay seconds or an HTTP date.
+ * @param now The current time in milliseconds since the Unix epoch.
+ * @returns The delay in milliseconds, or null if the value is missing or invalid.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | null {
+  if (!value) {
+    return null
+  }
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000
+  }
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Waits for the given time, rejecting early with the signal's reason if it is aborted.
+ * @param ms The time to wait in milliseconds.
+ * @param signal An optional AbortSignal to cancel the wait.
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
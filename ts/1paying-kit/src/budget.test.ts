@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest'
+import {
+  BudgetExceededError,
+  BudgetManager,
+  PaymentNotConfirmedError
+} from './budget.js'
+import { PayingKit, stringToBase64 } from './index.js'
+import type { PaymentRequired } from './types.js'
+
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+const MERCHANT = '0x209693Bc6afc0C5328bA36FaF03C514EF312287C'
+
+const requirements: PaymentRequired = {
+  x402Version: 2,
+  resource: { url: 'https://api.example.com/premium-data' },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '600000',
+      asset: USDC,
+      payTo: MERCHANT,
+      maxTimeoutSeconds: 60
+    }
+  ]
+}
+
+describe('BudgetManager', () => {
+  it('records settled payments and enforces the session limit', async () => {
+    const budget = new BudgetManager({ session: { [USDC]: '1000000' } })
+    const kit = new PayingKit({
+      budget,
+      fetch: async (_, init) =>
+        init?.method === 'PUT'
+          ? new Response(null, { status: 204 })
+          : Response.json({
+              status: 'completed',
+              result: stringToBase64(
+                JSON.stringify({
+                  x402Version: 2,
+                  accepted: requirements.accepts[0],
+                  payload: {}
+                })
+              )
+            })
+    })
+
+    const { txid } = await kit.getPayUrl(requirements)
+    await kit.waitForPaymentPayload(txid, { initialDelayMs: 0 })
+    await kit.submitSettleResult(txid, {
+      success: true,
+      transaction: '0xabc',
+      network: 'eip155:84532',
+      payer: '0x857b06519E91e3A54538791bDbb0E22373e36b66'
+    })
+
+    expect(budget.ledger).toMatchObject([
+      { txid, asset: USDC, payTo: MERCHANT, amount: '600000' }
+    ])
+    expect(budget.spent(USDC.toLowerCase())).toBe(600000n)
+    await expect(kit.getPayUrl(requirements)).rejects.toBeInstanceOf(
+      BudgetExceededError
+    )
+  })
+
+  it('enforces merchant and rolling limits', async () => {
+    let now = 1_000_000
+    const budget = new BudgetManager({
+      perMerchant: { [USDC]: 1500000n },
+      rolling: [{ asset: USDC, amount: 1000000n, windowMs: 60000 }],
+      now: () => now
+    })
+    const paid = requirements.accepts[0]!
+    budget.record('tx1', paid, {
+      success: true,
+      transaction: '0x1',
+      network: 'eip155:84532'
+    })
+    const err = await budget.check(requirements).catch((err) => err)
+    expect(err.rejections[0].reason).toContain('rolling limit')
+
+    now += 60001
+    await expect(budget.check(requirements)).resolves.toEqual(requirements)
+    budget.record('tx2', paid, {
+      success: true,
+      transaction: '0x2',
+      network: 'eip155:84532'
+    })
+    now += 60001
+    const err2 = await budget.check(requirements).catch((err) => err)
+    expect(err2.rejections[0].reason).toContain('merchant limit')
+
+    expect(
+      budget.record('tx3', paid, {
+        success: false,
+        transaction: '',
+        network: 'eip155:84532'
+      })
+    ).toBeNull()
+  })
+
+  it('records the charged amount of upto payments', () => {
+    const budget = new BudgetManager({ session: { [USDC]: '1000000' } })
+    const upto = { ...requirements.accepts[0]!, scheme: 'upto' as const }
+    budget.record('tx1', upto, {
+      success: true,
+      transaction: '0x1',
+      network: 'eip155:84532',
+      amount: '150000'
+    })
+    expect(budget.ledger).toMatchObject([{ txid: 'tx1', amount: '150000' }])
+    expect(budget.spent(USDC.toLowerCase())).toBe(150000n)
+  })
+
+  it('reserves issued pay URLs until they settle, fail or expire', async () => {
+    let now = 1_000_000
+    const budget = new BudgetManager({
+      session: { [USDC]: 1000000n },
+      now: () => now
+    })
+    const kit = new PayingKit({ budget })
+
+    const [first, second] = await Promise.allSettled([
+      kit.getPayUrl(requirements),
+      kit.getPayUrl(requirements)
+    ])
+    expect(first.status).toBe('fulfilled')
+    expect(second).toMatchObject({
+      status: 'rejected',
+      reason: expect.any(BudgetExceededError)
+    })
+    expect(budget.reserved(USDC)).toBe(600000n)
+
+    await kit.removePending((first as PromiseFulfilledResult<any>).value.txid)
+    expect(budget.reserved(USDC)).toBe(0n)
+    await kit.getPayUrl(requirements)
+    now += 60001
+    expect(budget.reserved(USDC)).toBe(0n)
+    await expect(kit.getPayUrl(requirements)).resolves.toBeTruthy()
+  })
+
+  it('counts only payments of this session against the session limit', async () => {
+    const budget = new BudgetManager({
+      session: { [USDC]: 1000000n },
+      rolling: [{ asset: USDC, amount: 2000000n, windowMs: 60000 }],
+      ledger: [
+        {
+          txid: 'tx0',
+          network: 'eip155:84532',
+          asset: USDC,
+          payTo: MERCHANT,
+          amount: '1000000',
+          transaction: '0x0',
+          settledAt: Date.now()
+        }
+      ]
+    })
+    expect(budget.spent(USDC)).toBe(1000000n)
+    expect(budget.spent(USDC, { session: true })).toBe(0n)
+    await expect(budget.check(requirements)).resolves.toEqual(requirements)
+
+    budget.record('tx1', requirements.accepts[0]!, {
+      success: true,
+      transaction: '0x1',
+      network: 'eip155:84532'
+    })
+    const err = await budget.check(requirements).catch((err) => err)
+    expect(err.rejections[0].reason).toContain('session limit')
+  })
+
+  it('records payments when settle results are not submitted', async () => {
+    const budget = new BudgetManager()
+    const paid = {
+      success: true,
+      transaction: '0xabc',
+      network: 'eip155:84532'
+    }
+    const kit = new PayingKit({
+      budget,
+      fetch: async (input, init) => {
+        const req = new Request(input, init)
+        if (req.url.startsWith('https://api.1pay.ing/tx/')) {
+          return Response.json({ status: 'completed', result: 'cGF5bG9hZA' })
+        }
+        if (!req.headers.get('PAYMENT-SIGNATURE')) {
+          return new Response('{}', {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': stringToBase64(JSON.stringify(requirements))
+            }
+          })
+        }
+        return new Response('paid', {
+          headers: { 'PAYMENT-RESPONSE': stringToBase64(JSON.stringify(paid)) }
+        })
+      }
+    })
+
+    const res = await kit.fetch(requirements.resource!.url, undefined, {
+      initialDelayMs: 0,
+      openPayUrl: () => {},
+      submitSettleResult: false
+    })
+    expect(await res.text()).toBe('paid')
+    expect(budget.ledger).toMatchObject([
+      { txid: res.txid, amount: '600000', transaction: '0xabc' }
+    ])
+    expect(budget.reserved(USDC)).toBe(0n)
+    expect(await kit.listPending()).toEqual([])
+  })
+
+  it('records paid responses without a valid settle response at the required amount', async () => {
+    const budget = new BudgetManager()
+    // First no PAYMENT-RESPONSE header, then a malformed one.
+    const responses: Record<string, string>[] = [
+      {},
+      { 'PAYMENT-RESPONSE': 'e30' }
+    ]
+    const kit = new PayingKit({
+      budget,
+      fetch: async (input, init) => {
+        const req = new Request(input, init)
+        if (req.url.startsWith('https://api.1pay.ing/tx/')) {
+          return Response.json({
+            status: 'completed',
+            result: stringToBase64(
+              JSON.stringify({
+                x402Version: 2,
+                accepted: requirements.accepts[0],
+                payload: {}
+              })
+            )
+          })
+        }
+        if (!req.headers.get('PAYMENT-SIGNATURE')) {
+          return new Response('{}', {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': stringToBase64(JSON.stringify(requirements))
+            }
+          })
+        }
+        return new Response('paid', { headers: responses.shift() })
+      }
+    })
+
+    const txids: (string | null)[] = []
+    while (responses.length > 0) {
+      const res = await kit.fetch(requirements.resource!.url, undefined, {
+        initialDelayMs: 0,
+        openPayUrl: () => {}
+      })
+      expect(await res.text()).toBe('paid')
+      expect(res.settleResponse).toBeNull()
+      txids.push(res.txid)
+    }
+    expect(budget.ledger).toMatchObject(
+      txids.map((txid) => ({ txid, amount: '600000', transaction: '' }))
+    )
+    expect(budget.reserved(USDC)).toBe(0n)
+    expect(await kit.listPending()).toEqual([])
+  })
+
+  it('asks for confirmation', async () => {
+    const seen: PaymentRequired[] = []
+    const budget = new BudgetManager({
+      confirm: (req) => {
+        seen.push(req as PaymentRequired)
+        return false
+      }
+    })
+    await expect(
+      new PayingKit({ budget }).getPayUrl(requirements)
+    ).rejects.toBeInstanceOf(PaymentNotConfirmedError)
+    expect(seen).toEqual([requirements])
+  })
+})
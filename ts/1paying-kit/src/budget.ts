@@ -0,0 +1,351 @@
+import { PayingKitError } from './errors.js'
+import {
+  chargedAmount,
+  requiredAmount,
+  sameAsset,
+  type PolicyRejection
+} from './policy.js'
+import type {
+  PaymentRequired,
+  PaymentRequirements,
+  PaymentRequirementsResponse,
+  PaymentRequirementsV1,
+  SettleResponse
+} from './types.js'
+
+/**
+ * A rolling spending limit for one asset.
+ */
+export interface RollingLimit {
+  /** The asset address. */
+  asset: string
+  /** The maximum total in atomic units within the window. */
+  amount: string | bigint
+  /** The length of the window in milliseconds, e.g. `86400000` for one day. */
+  windowMs: number
+}
+
+/**
+ * Options for a BudgetManager. All amounts are in atomic units and keyed by asset address.
+ */
+export interface BudgetOptions {
+  /** The maximum total spent in this session, per asset. Restored `ledger` entries do not count. */
+  session?: Record<string, string | bigint>
+  /** The maximum total spent per merchant (`payTo`), per asset. */
+  perMerchant?: Record<string, string | bigint>
+  /** Rolling limits per asset. */
+  rolling?: RollingLimit[]
+  /**
+   * Called with the payment options that fit the budget before a pay URL is created.
+   * Return false to decline the payment.
+   */
+  confirm?: (
+    requirements: PaymentRequired | PaymentRequirementsResponse
+  ) => boolean | Promise<boolean>
+  /**
+   * Entries of an earlier ledger to restore, e.g. from persistent storage.
+   */
+  ledger?: LedgerEntry[]
+  /**
+   * Returns the current time in milliseconds since the Unix epoch.
+   * @default Date.now
+   */
+  now?: () => number
+}
+
+/**
+ * A settled payment recorded in the budget ledger.
+ */
+export interface LedgerEntry {
+  /** The 1pay.ing transaction ID. */
+  txid: string
+  /** The network of the settlement. */
+  network: string
+  /** The asset address. */
+  asset: string
+  /** The merchant address. */
+  payTo: string
+  /** The amount charged in atomic units, for `upto` payments the consumed amount. */
+  amount: string
+  /** The on-chain transaction of the settlement, empty if the merchant did not report it. */
+  transaction: string
+  /** The settlement time in milliseconds since the Unix epoch. */
+  settledAt: number
+}
+
+// The payment options of an issued pay URL, reserved until they are settled or expire.
+interface Reservation {
+  accepts: (PaymentRequirements | PaymentRequirementsV1)[]
+  expiresAt: number
+}
+
+/**
+ * Thrown when no payment option fits the spending budget.
+ */
+export class BudgetExceededError extends PayingKitError {
+  override name = 'BudgetExceededError'
+  /** Why each option was rejected. */
+  readonly rejections: PolicyRejection[]
+
+  constructor(rejections: PolicyRejection[]) {
+    super(
+      'BUDGET_EXCEEDED',
+      `No payment option fits the budget: ${rejections
+        .map((r) => `[${r.index}] ${r.reason}`)
+        .join('; ')}`
+    )
+    this.rejections = rejections
+  }
+}
+
+/**
+ * Thrown when the confirmation hook declines a payment.
+ */
+export class PaymentNotConfirmedError extends PayingKitError {
+  override name = 'PaymentNotConfirmedError'
+
+  constructor() {
+    super('PAYMENT_NOT_CONFIRMED', 'The payment was not confirmed')
+  }
+}
+
+/**
+ * Enforces client-side spending limits before payments are signed
+ * and keeps a ledger of settled payments. `upto` payments are checked
+ * with their authorized maximum and recorded with the charged amount.
+ * The options of issued pay URLs are reserved until they are settled,
+ * fail or expire, so concurrent payments can not exceed the limits.
+ */
+export class BudgetManager {
+  #options: BudgetOptions
+  #ledger: LedgerEntry[]
+  #session = new Set<string>()
+  #reservations = new Map<string, Reservation>()
+  #now: () => number
+
+  /**
+   * @param options The spending limits and confirmation hook.
+   */
+  constructor(options: BudgetOptions = {}) {
+    this.#options = options
+    this.#ledger = [...(options.ledger ?? [])]
+    this.#now = options.now ?? Date.now
+  }
+
+  /**
+   * The settled payments, oldest first.
+   */
+  get ledger(): LedgerEntry[] {
+    return [...this.#ledger]
+  }
+
+  /**
+   * Returns the total settled for an asset.
+   * @param asset The asset address.
+   * @param filter Optionally only count payments to one merchant, since a time or of this session.
+   * @returns The total in atomic units.
+   */
+  spent(
+    asset: string,
+    filter: { payTo?: string; since?: number; session?: boolean } = {}
+  ): bigint {
+    return this.#ledger
+      .filter(
+        (entry) =>
+          sameAsset(entry.asset, asset) &&
+          (filter.payTo === undefined || entry.payTo === filter.payTo) &&
+          (filter.since === undefined || entry.settledAt >= filter.since) &&
+          (!filter.session || this.#session.has(entry.txid))
+      )
+      .reduce((sum, entry) => sum + BigInt(entry.amount), 0n)
+  }
+
+  /**
+   * Returns the total reserved for an asset by issued pay URLs that are not settled yet,
+   * counting the largest option of each.
+   * @param asset The asset address.
+   * @param filter Optionally only count options paying one merchant.
+   * @returns The total in atomic units.
+   */
+  reserved(asset: string, filter: { payTo?: string } = {}): bigint {
+    const now = this.#now()
+    let total = 0n
+    for (const [txid, reservation] of this.#reservations) {
+      if (reservation.expiresAt <= now) {
+        this.#reservations.delete(txid)
+        continue
+      }
+      let max = 0n
+      for (const req of reservation.accepts) {
+        const amount = requiredAmount(req)
+        if (
+          sameAsset(req.asset, asset) &&
+          (filter.payTo === undefined || req.payTo === filter.payTo) &&
+          amount > max
+        ) {
+          max = amount
+        }
+      }
+      total += max
+    }
+    return total
+  }
+
+  /**
+   * Removes the payment options that would exceed a limit and asks for confirmation.
+   * Settled and reserved payments count against the limits.
+   * @param requirements The payment requirements to check.
+   * @returns A promise that resolves with the requirements that fit the budget.
+   * @throws {BudgetExceededError} If no payment option fits the budget.
+   * @throws {PaymentNotConfirmedError} If the confirmation hook declines the payment.
+   */
+  async check<T extends PaymentRequired | PaymentRequirementsResponse>(
+    requirements: T
+  ): Promise<T> {
+    const accepts: T['accepts'][number][] = []
+    const rejected: PolicyRejection[] = []
+    requirements.accepts.forEach((req, index) => {
+      const reason = this.#exceeds(req)
+      if (reason) {
+        rejected.push({ index, requirements: req, reason })
+      } else {
+        accepts.push(req)
+      }
+    })
+
+    if (accepts.length === 0) {
+      throw new BudgetExceededError(rejected)
+    }
+
+    const checked = { ...requirements, accepts }
+    if (this.#options.confirm && !(await this.#options.confirm(checked))) {
+      throw new PaymentNotConfirmedError()
+    }
+    return checked
+  }
+
+  /**
+   * Reserves the payment options of an issued pay URL until it is recorded, released
+   * or its `maxTimeoutSeconds` elapse.
+   * @param txid The 1pay.ing transaction ID.
+   * @param requirements The payment requirements returned by `check`.
+   * @throws {BudgetExceededError} If an option no longer fits the budget, e.g. because of a concurrent payment.
+   */
+  reserve(
+    txid: string,
+    requirements: PaymentRequired | PaymentRequirementsResponse
+  ): void {
+    const rejected: PolicyRejection[] = []
+    requirements.accepts.forEach((req, index) => {
+      const reason = this.#exceeds(req)
+      if (reason) {
+        rejected.push({ index, requirements: req, reason })
+      }
+    })
+    if (rejected.length > 0) {
+      throw new BudgetExceededError(rejected)
+    }
+
+    const timeoutSeconds = Math.max(
+      0,
+      ...requirements.accepts.map((req) => req.maxTimeoutSeconds)
+    )
+    this.#reservations.set(txid, {
+      accepts: [...requirements.accepts],
+      expiresAt: this.#now() + timeoutSeconds * 1000
+    })
+  }
+
+  /**
+   * Releases the reservation of a payment that failed or was cancelled.
+   * @param txid The 1pay.ing transaction ID.
+   */
+  release(txid: string): void {
+    this.#reservations.delete(txid)
+  }
+
+  /**
+   * Records a settled payment in the ledger and releases its reservation.
+   * Unsuccessful settlements are not recorded, a payment is recorded once.
+   * @param txid The 1pay.ing transaction ID.
+   * @param requirements The payment option that was paid.
+   * @param settle The settle response reported by the merchant.
+   * @returns The ledger entry, or null if the settlement was not successful.
+   */
+  record(
+    txid: string,
+    requirements: PaymentRequirements | PaymentRequirementsV1,
+    settle: SettleResponse
+  ): LedgerEntry | null {
+    this.#reservations.delete(txid)
+    if (!settle.success) {
+      return null
+    }
+    const recorded = this.#ledger.find((entry) => entry.txid === txid)
+    if (recorded) {
+      return recorded
+    }
+
+    const entry: LedgerEntry = {
+      txid,
+      network: settle.network || requirements.network,
+      asset: requirements.asset,
+      payTo: requirements.payTo,
+      amount: chargedAmount(requirements, settle).toString(),
+      transaction: settle.transaction,
+      settledAt: this.#now()
+    }
+    this.#ledger.push(entry)
+    this.#session.add(txid)
+    return entry
+  }
+
+  #exceeds(req: PaymentRequirements | PaymentRequirementsV1): string | null {
+    const amount = requiredAmount(req)
+    const session = findLimit(this.#options.session, req.asset)
+    if (
+      session !== null &&
+      this.spent(req.asset, { session: true }) +
+        this.reserved(req.asset) +
+        amount >
+        session
+    ) {
+      return `session limit ${session} of ${req.asset} would be exceeded`
+    }
+
+    const merchant = findLimit(this.#options.perMerchant, req.asset)
+    if (
+      merchant !== null &&
+      this.spent(req.asset, { payTo: req.payTo }) +
+        this.reserved(req.asset, { payTo: req.payTo }) +
+        amount >
+        merchant
+    ) {
+      return `merchant limit ${merchant} of ${req.asset} for ${req.payTo} would be exceeded`
+    }
+
+    const now = this.#now()
+    for (const limit of this.#options.rolling ?? []) {
+      if (
+        sameAsset(limit.asset, req.asset) &&
+        this.spent(req.asset, { since: now - limit.windowMs }) +
+          this.reserved(req.asset) +
+          amount >
+          BigInt(limit.amount)
+      ) {
+        return `rolling limit ${limit.amount} of ${req.asset} per ${limit.windowMs}ms would be exceeded`
+      }
+    }
+    return null
+  }
+}
+
+function findLimit(
+  limits: Record<string, string | bigint> | undefined,
+  asset: string
+): bigint | null {
+  const entry = Object.entries(limits ?? {}).find(([key]) =>
+    sameAsset(key, asset)
+  )
+  return entry ? BigInt(entry[1]) : null
+}
@@ -0,0 +1,234 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { runCli, type CliIo } from './cli.js'
+import {
+  PayingKit,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader,
+  type PaymentRequired
+} from './index.js'
+
+const paymentRequired: PaymentRequired = {
+  x402Version: 2,
+  resource: { url: 'https://shop.example.com/api/make-coffee' },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 60
+    }
+  ]
+}
+
+const settled = encodePaymentResponseHeader({
+  success: true,
+  transaction: '0xabc',
+  network: 'eip155:84532'
+})
+
+describe('1paying CLI', () => {
+  let dir: string
+  let requests: { method: string; url: string; body: string }[]
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), '1paying-cli-'))
+    requests = []
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  function run(argv: string[], io: Partial<CliIo> = {}) {
+    const out = { stdout: '', stderr: '', opened: [] as string[] }
+    const done = runCli([...argv, '--key-file', join(dir, 'key')], {
+      stdout: (text) => void (out.stdout += text),
+      stderr: (text) => void (out.stderr += text),
+      env: {},
+      openUrl: async (url) => {
+        out.opened.push(url)
+        return false
+      },
+      fetch: async (input, init) => {
+        const req = new Request(input, init)
+        requests.push({
+          method: req.method,
+          url: req.url,
+          body: await req.clone().text()
+        })
+        if (req.url.startsWith('https://api.1pay.ing/tx/')) {
+          if (req.method === 'PUT') {
+            return new Response(null, { status: 204 })
+          }
+          if (req.url.endsWith('/unknown')) {
+            return new Response('not found', { status: 404 })
+          }
+          return Response.json({ status: 'completed', result: 'cGF5bG9hZA' })
+        }
+        if (!req.headers.get('PAYMENT-SIGNATURE')) {
+          return new Response('{}', {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': encodePaymentRequiredHeader(paymentRequired)
+            }
+          })
+        }
+        return Response.json(
+          { result: 'coffee' },
+          { headers: { 'PAYMENT-RESPONSE': settled } }
+        )
+      },
+      ...io
+    })
+    return done.then((code) => ({ code, ...out }))
+  }
+
+  it('prints usage', async () => {
+    const help = await run(['--help'])
+    expect(help.code).toBe(0)
+    expect(help.stdout).toContain('Usage: 1paying <command>')
+
+    const unknown = await run(['brew'])
+    expect(unknown.code).toBe(2)
+    expect(unknown.stderr).toContain('Unknown command: brew')
+
+    const invalid = await run(['status', '--bogus'])
+    expect(invalid.code).toBe(2)
+  })
+
+  it('manages the persistent key', async () => {
+    const missing = await run(['keys', '--json'])
+    expect(missing.code).toBe(1)
+    expect(JSON.parse(missing.stderr).error.code).toBe('INVALID_KEY')
+
+    const created = await run(['keys', 'new', '--json'])
+    expect(created.code).toBe(0)
+    const { publicKey } = JSON.parse(created.stdout)
+
+    expect((await run(['keys', 'new'])).code).toBe(1)
+    const exported = JSON.parse(
+      (await run(['keys', 'export', '--json'])).stdout
+    )
+    expect(exported.publicKey).toBe(publicKey)
+
+    const imported = await run([
+      'keys',
+      'import',
+      exported.secretKey,
+      '--force'
+    ])
+    expect(imported.stdout).toContain(`Public key: ${publicKey}`)
+
+    expect((await run(['keys', 'clear'])).code).toBe(0)
+    expect((await run(['keys'])).code).toBe(1)
+  })
+
+  it('decodes pay URLs and headers', async () => {
+    const kit = new PayingKit()
+    const { payUrl, txid } = await kit.getPayUrl(paymentRequired)
+    const url = await run(['decode', payUrl])
+    expect(url.code).toBe(0)
+    expect(JSON.parse(url.stdout)).toMatchObject({
+      type: 'pay-url',
+      txid,
+      verified: true,
+      payload: { accepts: paymentRequired.accepts }
+    })
+
+    const required = await run([
+      'decode',
+      encodePaymentRequiredHeader(paymentRequired)
+    ])
+    expect(JSON.parse(required.stdout)).toMatchObject({
+      type: 'payment-required',
+      accepts: paymentRequired.accepts
+    })
+
+    const response = await run(['decode', settled])
+    expect(JSON.parse(response.stdout)).toMatchObject({
+      type: 'settle-response',
+      transaction: '0xabc'
+    })
+
+    expect((await run(['decode', 'not a header'])).code).toBe(2)
+  })
+
+  it('shows the transaction status', async () => {
+    const status = await run(['status', 'abc', '--json'])
+    expect(status.code).toBe(0)
+    expect(JSON.parse(status.stdout)).toEqual({
+      txid: 'abc',
+      status: 'completed',
+      result: 'cGF5bG9hZA'
+    })
+
+    const unknown = await run(['status', 'unknown'])
+    expect(unknown.stdout).toBe('pending\n')
+  })
+
+  it('submits settle results', async () => {
+    const settle = await run(['settle', 'abc', settled])
+    expect(settle.code).toBe(0)
+    expect(requests).toEqual([
+      {
+        method: 'PUT',
+        url: 'https://api.1pay.ing/tx/abc/status',
+        body: JSON.stringify({ tx: '0xabc', status: 'finalized' })
+      }
+    ])
+  })
+
+  it('fetches and pays', async () => {
+    const res = await run([
+      'fetch',
+      'https://shop.example.com/api/make-coffee',
+      '-d',
+      '{"size":"grande"}',
+      '-H',
+      'Content-Type: application/json',
+      '--json'
+    ])
+    expect(res.code).toBe(0)
+    const output = JSON.parse(res.stdout)
+    expect(output).toMatchObject({
+      status: 200,
+      body: { result: 'coffee' },
+      settleResponse: { success: true, transaction: '0xabc' }
+    })
+
+    // The pay URL is printed, drawn as a QR code and opened.
+    expect(res.opened).toHaveLength(1)
+    expect(res.stderr).toContain(res.opened[0])
+    expect(res.stderr).toContain('█')
+    expect(res.stderr).toContain('Could not open a browser')
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      body: '{"size":"grande"}'
+    })
+
+    // Pay URLs are not shortened by default.
+    expect(res.opened[0]).toContain('#msg=')
+    expect(requests.some((req) => req.url.endsWith('/msg'))).toBe(false)
+  })
+
+  it('uploads the messages of long pay URLs when asked to', async () => {
+    const res = await run([
+      'fetch',
+      'https://shop.example.com/api/make-coffee',
+      '--max-url-length',
+      '100'
+    ])
+    expect(res.code).toBe(0)
+    expect(res.opened[0]).toContain('#ref=')
+    const upload = requests.find((req) => req.url.endsWith('/msg'))
+    expect(upload).toMatchObject({
+      method: 'PUT',
+      url: expect.stringMatching(/^https:\/\/api\.1pay\.ing\/tx\/.+\/msg$/)
+    })
+  })
+})
@@ -0,0 +1,508 @@
+import { spawn } from 'node:child_process'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { PayingKitError, TransportError } from './errors.js'
+import {
+  decodePaymentRequiredHeader,
+  decodePaymentResponseHeader
+} from './header.js'
+import { API_ENDPOINT, PayingKit } from './index.js'
+import { FileKeyStore } from './keystore.js'
+import { ApiMessageStore } from './message.js'
+import { decodePaymentPayload } from './payload.js'
+import { parsePayUrl } from './payurl.js'
+import { encodeQrCode, qrCodeToTerminal } from './qrcode.js'
+import type { FetchLike } from './transport.js'
+import type { TransactionState } from './types.js'
+import { base64ToBytes, base64ToString, bytesToBase64Url } from './utils.js'
+
+/**
+ * The environment of the command-line tool, replaceable in tests.
+ */
+export interface CliIo {
+  /** Writes the result of a command. */
+  stdout: (text: string) => void
+  /** Writes progress, prompts and errors. */
+  stderr: (text: string) => void
+  /** The environment variables. */
+  env: Record<string, string | undefined>
+  /** The fetch implementation for all HTTP requests. */
+  fetch?: FetchLike
+  /**
+   * Opens a URL in the browser.
+   * @returns Whether a browser could be launched.
+   */
+  openUrl?: (url: string) => Promise<boolean>
+}
+
+const USAGE = `Usage: 1paying <command> [options]
+
+Commands:
+  fetch <url>              Fetch a URL, paying for it if it responds with 402
+  status <txid>            Show the state of a transaction
+  decode <payUrl|header>   Decode a pay URL or a PAYMENT-REQUIRED, PAYMENT-SIGNATURE
+                           or PAYMENT-RESPONSE header
+  settle <txid> <header>   Submit the PAYMENT-RESPONSE header of a paid request
+  keys [show|new|import|export|clear]
+                           Manage the persistent client key
+
+Options:
+  -X, --request <method>   The HTTP method for fetch (default GET)
+  -H, --header <header>    A request header for fetch, e.g. "Accept: application/json"
+  -d, --data <body>        The request body for fetch
+      --timeout <ms>       How long fetch waits for the payment (default 180000)
+      --no-open            Do not open the pay URL in the browser
+      --no-qr              Do not print the pay URL as a QR code
+      --max-url-length <n> Upload payment messages of longer pay URLs to the
+                           transaction API (default no limit)
+      --key-file <path>    The key file (default $ONEPAYING_KEY_FILE or ~/.1paying/key)
+      --api <url>          The transaction API (default ${API_ENDPOINT})
+      --paying <url>       The sign page
+      --force              Replace an existing key with keys new or keys import
+      --json               Print machine-readable JSON
+  -h, --help               Show this help
+`
+
+/**
+ * Runs the `1paying` command-line tool.
+ * @param argv The arguments without the node executable and script path.
+ * @param io The environment, `process` by default.
+ * @returns The exit code: 0 on success, 1 on failure and 2 on invalid usage.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIo = processIo()
+): Promise<number> {
+  let json = argv.includes('--json')
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'request': { type: 'string', short: 'X' },
+        'header': { type: 'string', short: 'H', multiple: true },
+        'data': { type: 'string', short: 'd' },
+        'timeout': { type: 'string' },
+        'no-open': { type: 'boolean' },
+        'no-qr': { type: 'boolean' },
+        'max-url-length': { type: 'string' },
+        'key-file': { type: 'string' },
+        'api': { type: 'string' },
+        'paying': { type: 'string' },
+        'force': { type: 'boolean' },
+        'json': { type: 'boolean' },
+        'help': { type: 'boolean', short: 'h' }
+      }
+    })
+    json = values.json ?? false
+    const [command, ...args] = positionals
+    if (values.help || !command) {
+      io.stdout(USAGE)
+      return values.help ? 0 : 2
+    }
+
+    const ctx: Context = {
+      io,
+      json,
+      options: values,
+      fetch: io.fetch ?? ((input, init) => globalThis.fetch(input, init)),
+      apiEndpoint: (values.api ?? API_ENDPOINT).replace(/\/+$/, ''),
+      keyFile:
+        values['key-file'] ??
+        io.env['ONEPAYING_KEY_FILE'] ??
+        join(homedir(), '.1paying', 'key')
+    }
+    switch (command) {
+      case 'fetch':
+        return await fetchCommand(ctx, args)
+      case 'status':
+        return await statusCommand(ctx, args)
+      case 'decode':
+        return await decodeCommand(ctx, args)
+      case 'settle':
+        return await settleCommand(ctx, args)
+      case 'keys':
+        return await keysCommand(ctx, args)
+      default:
+        throw new UsageError(`Unknown command: ${command}`)
+    }
+  } catch (err) {
+    const usage =
+      err instanceof UsageError ||
+      String((err as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS')
+    const error = err as Error
+    if (json) {
+      io.stderr(
+        `${JSON.stringify({
+          error: {
+            name: error.name,
+            code: err instanceof PayingKitError ? err.code : null,
+            message: error.message
+          }
+        })}\n`
+      )
+    } else {
+      io.stderr(`Error: ${error.message}\n`)
+      if (usage) {
+        io.stderr(`Run "1paying --help" for usage.\n`)
+      }
+    }
+    return usage ? 2 : 1
+  }
+}
+
+interface Context {
+  io: CliIo
+  json: boolean
+  options: {
+    'request'?: string | undefined
+    'header'?: string[] | undefined
+    'data'?: string | undefined
+    'timeout'?: string | undefined
+    'no-open'?: boolean | undefined
+    'no-qr'?: boolean | undefined
+    'max-url-length'?: string | undefined
+    'paying'?: string | undefined
+    'force'?: boolean | undefined
+  }
+  fetch: FetchLike
+  apiEndpoint: string
+  keyFile: string
+}
+
+class UsageError extends Error {
+  override name = 'UsageError'
+}
+
+async function fetchCommand(ctx: Context, args: string[]): Promise<number> {
+  const [url] = expectArgs(args, ['url'])
+  const { io, options } = ctx
+  const headers = new Headers()
+  for (const header of options.header ?? []) {
+    const i = header.indexOf(':')
+    if (i <= 0) {
+      throw new UsageError(`Invalid header: ${header}`)
+    }
+    headers.append(header.slice(0, i).trim(), header.slice(i + 1).trim())
+  }
+
+  const kit = await PayingKit.fromKeyStore(new FileKeyStore(ctx.keyFile), {
+    apiEndpoint: ctx.apiEndpoint,
+    ...(options.paying ? { payingEndpoint: options.paying } : {}),
+    fetch: ctx.fetch,
+    ...(options['max-url-length'] === undefined
+      ? {}
+      : {
+          maxUrlLength: toNumber(options['max-url-length'], 'max-url-length')
+        })
+  })
+
+  let lastStatus = ''
+  const res = await kit.fetch(
+    url,
+    {
+      method: options.request ?? (options.data === undefined ? 'GET' : 'POST'),
+      headers,
+      ...(options.data === undefined ? {} : { body: options.data })
+    },
+    {
+      timeoutMs: toNumber(options.timeout ?? '180000', 'timeout'),
+      openPayUrl: (payUrl) => handOff(ctx, payUrl),
+      onprogress: (state) => {
+        if (state.status !== lastStatus) {
+          lastStatus = state.status
+          io.stderr(`Payment status: ${state.status}\n`)
+        }
+      }
+    }
+  )
+
+  const text = await res.text()
+  if (ctx.json) {
+    let body: unknown = text
+    if (res.headers.get('Content-Type')?.includes('json')) {
+      try {
+        body = JSON.parse(text)
+      } catch {
+        // Keep malformed JSON as text.
+      }
+    }
+    printJson(io, {
+      status: res.status,
+      headers: Object.fromEntries(res.headers),
+      txid: res.txid,
+      settleResponse: res.settleResponse,
+      body
+    })
+  } else {
+    io.stdout(text.endsWith('\n') || text === '' ? text : `${text}\n`)
+  }
+  return res.ok ? 0 : 1
+}
+
+/** Shows the pay URL as text and QR code and opens it in the browser. */
+async function handOff(ctx: Context, payUrl: string): Promise<void> {
+  const { io, options } = ctx
+  io.stderr(`Payment required, open this URL to pay:\n${payUrl}\n`)
+  if (!options['no-qr']) {
+    try {
+      io.stderr(`\n${qrCodeToTerminal(encodeQrCode(payUrl, { ecc: 'L' }))}\n\n`)
+    } catch (err) {
+      if (!(err instanceof PayingKitError && err.code === 'QR_DATA_TOO_LONG')) {
+        throw err
+      }
+      io.stderr('The pay URL is too long for a QR code.\n')
+    }
+  }
+  if (!options['no-open']) {
+    const openUrl = io.openUrl ?? ((url) => openBrowser(url, io.env))
+    if (!(await openUrl(payUrl))) {
+      io.stderr('Could not open a browser, scan the QR code or open the URL.\n')
+    }
+  }
+}
+
+async function statusCommand(ctx: Context, args: string[]): Promise<number> {
+  const [txid] = expectArgs(args, ['txid'])
+  const res = await ctx.fetch(`${ctx.apiEndpoint}/${txid}`)
+  let state: TransactionState
+  if (res.status === 404) {
+    // The transaction is not known to the API until the sign page submits it.
+    state = { status: 'pending' }
+  } else if (res.ok) {
+    state = await res.json()
+  } else {
+    throw new TransportError(
+      `Failed to fetch transaction status, status ${res.status}: ${await res.text()}`,
+      res.status
+    )
+  }
+
+  if (ctx.json) {
+    printJson(ctx.io, { txid, ...state })
+  } else {
+    ctx.io.stdout(`${state.status}\n`)
+    if (state.error) {
+      ctx.io.stdout(`Error ${state.error.code}: ${state.error.message}\n`)
+    }
+    if (state.result) {
+      ctx.io.stdout(`Payment payload: ${state.result}\n`)
+    }
+  }
+  return state.status === 'error' ? 1 : 0
+}
+
+async function decodeCommand(ctx: Context, args: string[]): Promise<number> {
+  const [input] = expectArgs(args, ['payUrl|header'])
+  let decoded: Record<string, unknown>
+  if (/^https?:\/\//i.test(input)) {
+    const parsed = await parsePayUrl(input, {
+      messageStore: new ApiMessageStore(ctx.apiEndpoint, ctx.fetch)
+    })
+    let verified = true
+    try {
+      PayingKit.verifyMessage(parsed)
+    } catch {
+      verified = false
+    }
+    decoded = {
+      type: 'pay-url',
+      txid: parsed.txid,
+      verified,
+      ref: parsed.ref,
+      pubkey: bytesToBase64Url(parsed.message.pubkey),
+      nonce: parsed.message.nonce,
+      payload: parsed.message.payload
+    }
+  } else {
+    let value: unknown
+    try {
+      value = JSON.parse(base64ToString(input))
+    } catch (err) {
+      throw new UsageError('Input is neither a pay URL nor a base64 header', {
+        cause: err
+      })
+    }
+    if (isObject(value) && 'accepts' in value) {
+      decoded = {
+        type: 'payment-required',
+        ...decodePaymentRequiredHeader(input)
+      }
+    } else if (isObject(value) && 'success' in value) {
+      decoded = {
+        type: 'settle-response',
+        ...decodePaymentResponseHeader(input)
+      }
+    } else {
+      const payload = decodePaymentPayload(input)
+      decoded = {
+        type: 'payment-payload',
+        kind: payload.kind,
+        x402Version: payload.x402Version,
+        scheme: payload.scheme,
+        network: payload.network,
+        accepted: payload.accepted,
+        payload: payload.payload
+      }
+    }
+  }
+
+  printJson(ctx.io, decoded)
+  return 0
+}
+
+async function settleCommand(ctx: Context, args: string[]): Promise<number> {
+  const [txid, header] = expectArgs(args, ['txid', 'header'])
+  const kit = new PayingKit({ apiEndpoint: ctx.apiEndpoint, fetch: ctx.fetch })
+  const settle = decodePaymentResponseHeader(header)
+  await kit.submitSettleResult(txid, settle)
+  if (ctx.json) {
+    printJson(ctx.io, { txid, settleResponse: settle })
+  } else {
+    ctx.io.stdout(
+      `Submitted ${settle.success ? 'successful' : 'failed'} settlement ${settle.transaction || '-'} on ${settle.network}${settle.amount === undefined ? '' : ` charging ${settle.amount}`} for ${txid}\n`
+    )
+  }
+  return 0
+}
+
+async function keysCommand(ctx: Context, args: string[]): Promise<number> {
+  const [action = 'show', ...rest] = args
+  const store = new FileKeyStore(ctx.keyFile)
+  const existing = await store.load()
+  const print = (secretKey: Uint8Array, exportSecret = false) => {
+    const publicKey = bytesToBase64Url(
+      PayingKit.fromSecretKey(secretKey).publicKey
+    )
+    const secret = exportSecret ? bytesToBase64Url(secretKey) : null
+    if (ctx.json) {
+      printJson(ctx.io, {
+        keyFile: ctx.keyFile,
+        publicKey,
+        ...(secret ? { secretKey: secret } : {})
+      })
+    } else {
+      ctx.io.stdout(`Key file: ${ctx.keyFile}\nPublic key: ${publicKey}\n`)
+      if (secret) {
+        ctx.io.stdout(`Secret key: ${secret}\n`)
+      }
+    }
+  }
+
+  switch (action) {
+    case 'show':
+    case 'export': {
+      expectArgs(rest, [])
+      if (!existing) {
+        throw new PayingKitError(
+          'INVALID_KEY',
+          `No key found at ${ctx.keyFile}, create one with "1paying keys new"`
+        )
+      }
+      print(existing, action === 'export')
+      return 0
+    }
+    case 'new':
+    case 'import': {
+      const [secret] = expectArgs(
+        rest,
+        action === 'import' ? ['secretKey'] : []
+      )
+      if (existing && !ctx.options.force) {
+        throw new PayingKitError(
+          'INVALID_KEY',
+          `A key already exists at ${ctx.keyFile}, use --force to replace it`
+        )
+      }
+      const secretKey =
+        secret === undefined
+          ? new PayingKit().exportSecretKey()
+          : PayingKit.fromSecretKey(base64ToBytes(secret)).exportSecretKey()
+      await store.save(secretKey)
+      print(secretKey)
+      return 0
+    }
+    case 'clear':
+      expectArgs(rest, [])
+      await store.clear()
+      if (ctx.json) {
+        printJson(ctx.io, { keyFile: ctx.keyFile, cleared: existing !== null })
+      } else {
+        ctx.io.stdout(`Removed ${ctx.keyFile}\n`)
+      }
+      return 0
+    default:
+      throw new UsageError(`Unknown keys action: ${action}`)
+  }
+}
+
+function expectArgs(args: string[], names: string[]): string[] {
+  if (args.length !== names.length) {
+    throw new UsageError(
+      names.length === 0
+        ? `Unexpected argument: ${args[0]}`
+        : `Expected ${names.map((n) => `<${n}>`).join(' ')}`
+    )
+  }
+  return args
+}
+
+function toNumber(value: string, name: string): number {
+  const n = Number(value)
+  if (!Number.isFinite(n) || n < 0) {
+    throw new UsageError(`Invalid --${name}: ${value}`)
+  }
+  return n
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function printJson(io: CliIo, value: unknown): void {
+  io.stdout(`${JSON.stringify(value, null, 2)}\n`)
+}
+
+/**
+ * Opens a URL with the platform's default browser. Returns false on headless
+ * Linux sessions or if no opener is installed.
+ */
+function openBrowser(
+  url: string,
+  env: Record<string, string | undefined>
+): Promise<boolean> {
+  let command: string
+  let args: string[]
+  if (process.platform === 'darwin') {
+    command = 'open'
+    args = [url]
+  } else if (process.platform === 'win32') {
+    // Unlike `cmd /c start`, this does not interpret `&` in the URL.
+    command = 'rundll32'
+    args = ['url.dll,FileProtocolHandler', url]
+  } else {
+    if (!env['DISPLAY'] && !env['WAYLAND_DISPLAY']) {
+      return Promise.resolve(false)
+    }
+    command = 'xdg-open'
+    args = [url]
+  }
+
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true })
+    child.once('error', () => resolve(false))
+    child.once('spawn', () => {
+      child.unref()
+      resolve(true)
+    })
+  })
+}
+
+function processIo(): CliIo {
+  return {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    env: process.env
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  InvalidRequirementsError,
+  downgradeToV1,
+  upgradeToV2,
+  type PaymentPayloadV1,
+  type PaymentRequirementsResponse
+} from './index.js'
+
+const v1: PaymentRequirementsResponse = {
+  x402Version: 1,
+  error: 'X-PAYMENT header is required',
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'base-sepolia',
+      maxAmountRequired: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      resource: 'https://api.example.com/premium-data',
+      description: 'Access to premium market data',
+      mimeType: 'application/json',
+      outputSchema: { type: 'object' },
+      maxTimeoutSeconds: 60,
+      extra: { name: 'USDC', version: '2' }
+    }
+  ]
+}
+
+describe('upgradeToV2 / downgradeToV1', () => {
+  it('round-trips a requirements response without loss', () => {
+    const { value: v2, lost } = upgradeToV2(v1)
+    expect(lost).toEqual([])
+    expect(v2).toEqual({
+      x402Version: 2,
+      error: 'X-PAYMENT header is required',
+      resource: {
+        url: 'https://api.example.com/premium-data',
+        description: 'Access to premium market data',
+        mimeType: 'application/json'
+      },
+      accepts: [
+        {
+          scheme: 'exact',
+          network: 'base-sepolia',
+          amount: '10000',
+          asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+          payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+          maxTimeoutSeconds: 60,
+          extra: { name: 'USDC', version: '2' }
+        }
+      ],
+      extensions: { info: { outputSchema: { type: 'object' } }, schema: {} }
+    })
+
+    expect(downgradeToV1(v2)).toEqual({ value: v1, lost: [] })
+  })
+
+  it('reports extensions lost on downgrade', () => {
+    const extensions = { info: { bazaar: true }, schema: { type: 'object' } }
+    const { value, lost } = downgradeToV1({
+      ...upgradeToV2(v1).value,
+      extensions
+    })
+    expect(value.accepts[0]!.outputSchema).toBeUndefined()
+    expect(lost).toEqual([{ path: '$.extensions', value: extensions }])
+  })
+
+  it('reports resources of other options lost on upgrade', () => {
+    const first = v1.accepts[0]!
+    const { value, lost } = upgradeToV2({
+      ...v1,
+      accepts: [
+        first,
+        { ...first, network: 'base' },
+        {
+          ...first,
+          resource: 'https://api.example.com/other-data',
+          description: 'Access to other data',
+          outputSchema: { type: 'array' }
+        }
+      ]
+    })
+    expect(value.resource.url).toBe(first.resource)
+    expect(value.accepts).toHaveLength(3)
+    expect(lost).toEqual([
+      {
+        path: '$.accepts[2].resource',
+        value: 'https://api.example.com/other-data'
+      },
+      { path: '$.accepts[2].description', value: 'Access to other data' },
+      { path: '$.accepts[2].outputSchema', value: { type: 'array' } }
+    ])
+
+    expect(() => upgradeToV2({ ...v1, accepts: [] })).toThrow(
+      InvalidRequirementsError
+    )
+  })
+
+  it('converts single payment options', () => {
+    const req = upgradeToV2(v1.accepts[0]!)
+    expect(req.amount).toBe('10000')
+
+    const { mimeType, outputSchema, ...rest } = v1.accepts[0]!
+    expect(
+      downgradeToV1(req, { url: 'https://api.example.com/premium-data' })
+    ).toStrictEqual({ value: { ...rest, description: '' }, lost: [] })
+  })
+
+  it('converts payment payloads', () => {
+    const payload: PaymentPayloadV1<{ signature: string }> = {
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      payload: { signature: '0x00' }
+    }
+    const v2 = upgradeToV2(payload, v1)
+    expect(v2).toEqual({
+      x402Version: 2,
+      resource: upgradeToV2(v1).value.resource,
+      accepted: upgradeToV2(v1).value.accepts[0],
+      payload: { signature: '0x00' }
+    })
+
+    const { value, lost } = downgradeToV1(v2)
+    expect(value).toEqual(payload)
+    expect(lost.map((l) => l.path)).toEqual(['$.accepted', '$.resource'])
+
+    expect(() => upgradeToV2({ ...payload, network: 'base' }, v1)).toThrow(
+      'No payment requirements match scheme exact on base'
+    )
+  })
+})
@@ -0,0 +1,286 @@
+import { InvalidRequirementsError } from './errors.js'
+import type {
+  Extensions,
+  PaymentPayload,
+  PaymentPayloadV1,
+  PaymentRequired,
+  PaymentRequirements,
+  PaymentRequirementsResponse,
+  PaymentRequirementsV1,
+  ResourceInfo
+} from './types.js'
+
+/**
+ * A field that was dropped when converting between x402 versions because the target
+ * version has no place for it.
+ */
+export interface LostField {
+  /** The path of the dropped field in the source structure, e.g. `$.extensions`. */
+  path: string
+  /** The dropped value. */
+  value: unknown
+}
+
+/**
+ * The result of converting to x402 v1.
+ * @template T The converted structure.
+ */
+export interface Downgraded<T> {
+  /** The x402 v1 structure. */
+  value: T
+  /** The fields that could not be carried over, empty if the conversion was lossless. */
+  lost: LostField[]
+}
+
+/**
+ * The result of converting a requirements response to x402 v2.
+ * @template T The converted structure.
+ */
+export interface Upgraded<T> {
+  /** The x402 v2 structure. */
+  value: T
+  /** The fields that could not be carried over, empty if the conversion was lossless. */
+  lost: LostField[]
+}
+
+/**
+ * Converts x402 v1 payment requirements to x402 v2.
+ * v2 describes the resource once per response, so it is taken from the first option,
+ * and the first v1 `outputSchema` is carried in `extensions.info.outputSchema`.
+ * Differing resource fields and output schemas of other options are lost.
+ * @param res The x402 v1 payment requirements response.
+ * @returns The x402 v2 payment required response and the lost fields.
+ * @throws {InvalidRequirementsError} If the response has no options to take the resource from.
+ */
+export function upgradeToV2(
+  res: PaymentRequirementsResponse
+): Upgraded<PaymentRequired>
+/**
+ * Converts an x402 v1 payment option to x402 v2. The resource fields are
+ * described by the response in v2, use the response overload to keep them.
+ * @param req The x402 v1 payment option.
+ * @returns The x402 v2 payment option.
+ */
+export function upgradeToV2(req: PaymentRequirementsV1): PaymentRequirements
+/**
+ * Converts an x402 v1 payment payload to x402 v2.
+ * @param payload The x402 v1 payment payload.
+ * @param requirements The payment requirements the payload pays for. If a response is given,
+ * the option with the payload's scheme and network is used.
+ * @returns The x402 v2 payment payload.
+ * @throws {InvalidRequirementsError} If no option of the requirements matches the payload.
+ */
+export function upgradeToV2<T>(
+  payload: PaymentPayloadV1<T>,
+  requirements: PaymentRequirementsV1 | PaymentRequirementsResponse
+): PaymentPayload<T>
+export function upgradeToV2<T>(
+  value:
+    | PaymentRequirementsResponse
+    | PaymentRequirementsV1
+    | PaymentPayloadV1<T>,
+  requirements?: PaymentRequirementsV1 | PaymentRequirementsResponse
+): Upgraded<PaymentRequired> | PaymentRequirements | PaymentPayload<T> {
+  if ('accepts' in value) {
+    const first = value.accepts[0]
+    if (!first) {
+      throw new InvalidRequirementsError(
+        'No payment requirements to take the resource from'
+      )
+    }
+    const rt: PaymentRequired = {
+      x402Version: 2,
+      resource: toResourceInfo(first),
+      accepts: value.accepts.map(toRequirementsV2)
+    }
+    if (value.error) {
+      rt.error = value.error
+    }
+    const outputSchema = value.accepts.find(
+      (req) => req.outputSchema
+    )?.outputSchema
+    if (outputSchema) {
+      rt.extensions = { info: { outputSchema }, schema: {} }
+    }
+
+    const lost: LostField[] = []
+    value.accepts.forEach((req, i) => {
+      const fields: [keyof PaymentRequirementsV1, unknown][] = [
+        ['resource', first.resource],
+        ['description', first.description],
+        ['mimeType', first.mimeType],
+        ['outputSchema', outputSchema]
+      ]
+      for (const [key, kept] of fields) {
+        if (req[key] !== undefined && !sameValue(req[key], kept)) {
+          lost.push({ path: `$.accepts[${i}].${key}`, value: req[key] })
+        }
+      }
+    })
+    return { value: rt, lost }
+  }
+
+  if ('maxAmountRequired' in value) {
+    return toRequirementsV2(value)
+  }
+
+  const req =
+    requirements && 'accepts' in requirements
+      ? requirements.accepts.find(
+          (r) => r.scheme === value.scheme && r.network === value.network
+        )
+      : requirements
+  if (!req) {
+    throw new InvalidRequirementsError(
+      `No payment requirements match scheme ${value.scheme} on ${value.network}`
+    )
+  }
+  return {
+    x402Version: 2,
+    resource: toResourceInfo(req),
+    accepted: toRequirementsV2(req),
+    payload: value.payload
+  }
+}
+
+/**
+ * Converts an x402 v2 payment required response to x402 v1.
+ * The resource is copied into every option and `extensions.info.outputSchema`
+ * becomes the `outputSchema` of every option. Other extensions are lost.
+ * @param res The x402 v2 payment required response.
+ * @returns The x402 v1 payment requirements response and the lost fields.
+ */
+export function downgradeToV1(
+  res: PaymentRequired
+): Downgraded<PaymentRequirementsResponse>
+/**
+ * Converts an x402 v2 payment option to x402 v1.
+ * @param req The x402 v2 payment option.
+ * @param resource The resource the option pays for, required by v1.
+ * @returns The x402 v1 payment option. Nothing is lost.
+ */
+export function downgradeToV1(
+  req: PaymentRequirements,
+  resource: ResourceInfo
+): Downgraded<PaymentRequirementsV1>
+/**
+ * Converts an x402 v2 payment payload to x402 v1.
+ * v1 payloads only name the scheme and network, so `accepted` (except those two),
+ * `resource` and `extensions` are lost.
+ * @param payload The x402 v2 payment payload.
+ * @returns The x402 v1 payment payload and the lost fields.
+ */
+export function downgradeToV1<T>(
+  payload: PaymentPayload<T>
+): Downgraded<PaymentPayloadV1<T>>
+export function downgradeToV1<T>(
+  value: PaymentRequired | PaymentRequirements | PaymentPayload<T>,
+  resource?: ResourceInfo
+): Downgraded<
+  PaymentRequirementsResponse | PaymentRequirementsV1 | PaymentPayloadV1<T>
+> {
+  const lost: LostField[] = []
+  if ('accepts' in value) {
+    const outputSchema = takeOutputSchema(value.extensions, lost)
+    const accepts = value.accepts.map((req) => {
+      const rt = toRequirementsV1(req, value.resource)
+      if (outputSchema) {
+        rt.outputSchema = outputSchema
+      }
+      return rt
+    })
+    return {
+      value: { x402Version: 1, error: value.error ?? '', accepts },
+      lost
+    }
+  }
+
+  if ('payload' in value) {
+    const { scheme, network, ...accepted } = value.accepted
+    lost.push({ path: '$.accepted', value: accepted })
+    if (value.resource) {
+      lost.push({ path: '$.resource', value: value.resource })
+    }
+    if (value.extensions) {
+      lost.push({ path: '$.extensions', value: value.extensions })
+    }
+    return {
+      value: { x402Version: 1, scheme, network, payload: value.payload },
+      lost
+    }
+  }
+
+  return { value: toRequirementsV1(value, resource ?? { url: '' }), lost }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+function toResourceInfo(req: PaymentRequirementsV1): ResourceInfo {
+  const rt: ResourceInfo = { url: req.resource }
+  if (req.description) {
+    rt.description = req.description
+  }
+  if (req.mimeType) {
+    rt.mimeType = req.mimeType
+  }
+  return rt
+}
+
+function toRequirementsV2(req: PaymentRequirementsV1): PaymentRequirements {
+  const rt: PaymentRequirements = {
+    scheme: req.scheme,
+    network: req.network,
+    amount: req.maxAmountRequired,
+    asset: req.asset,
+    payTo: req.payTo,
+    maxTimeoutSeconds: req.maxTimeoutSeconds
+  }
+  if (req.extra) {
+    rt.extra = req.extra as Record<string, unknown>
+  }
+  return rt
+}
+
+function toRequirementsV1(
+  req: PaymentRequirements,
+  resource: ResourceInfo
+): PaymentRequirementsV1 {
+  const rt: PaymentRequirementsV1 = {
+    scheme: req.scheme,
+    network: req.network,
+    maxAmountRequired: req.amount,
+    asset: req.asset,
+    payTo: req.payTo,
+    resource: resource.url,
+    description: resource.description ?? '',
+    maxTimeoutSeconds: req.maxTimeoutSeconds
+  }
+  if (resource.mimeType) {
+    rt.mimeType = resource.mimeType
+  }
+  if (req.extra) {
+    rt.extra = req.extra
+  }
+  return rt
+}
+
+function takeOutputSchema(
+  extensions: Extensions | undefined,
+  lost: LostField[]
+): object | undefined {
+  if (!extensions) {
+    return undefined
+  }
+  const { outputSchema, ...info } = extensions.info
+  if (
+    Object.keys(info).length > 0 ||
+    Object.keys(extensions.schema).length > 0
+  ) {
+    lost.push({ path: '$.extensions', value: extensions })
+  }
+  return typeof outputSchema === 'object' && outputSchema !== null
+    ? outputSchema
+    : undefined
+}
@@ -0,0 +1,584 @@
+// A small DEFLATE (RFC 1951) encoder and decoder, used when the runtime has no
+// CompressionStream or DecompressionStream. The encoder uses LZ77 with hash chains
+// and fixed Huffman codes, falling back to stored blocks for incompressible data.
+// The decoder supports stored, fixed and dynamic Huffman blocks.
+
+const MAX_BITS = 15
+const WINDOW_SIZE = 32768
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const MAX_CHAIN = 64
+const HASH_BITS = 15
+const HASH_SIZE = 1 << HASH_BITS
+const MAX_STORED = 65535
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258
+]
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0
+]
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+]
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13
+]
+// The order in which code length code lengths are stored in a dynamic block header.
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15
+]
+
+const FIXED_LIT_LENGTHS = new Uint8Array(288)
+FIXED_LIT_LENGTHS.fill(8, 0, 144)
+FIXED_LIT_LENGTHS.fill(9, 144, 256)
+FIXED_LIT_LENGTHS.fill(7, 256, 280)
+FIXED_LIT_LENGTHS.fill(8, 280, 288)
+const FIXED_DIST_LENGTHS = new Uint8Array(30).fill(5)
+
+const FIXED_LIT_CODES = canonicalCodes(FIXED_LIT_LENGTHS)
+const FIXED_DIST_CODES = canonicalCodes(FIXED_DIST_LENGTHS)
+
+/**
+ * Compresses data into a raw DEFLATE stream.
+ * @param data The data to compress.
+ * @returns The DEFLATE stream.
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const out = new BitWriter(data.length / 2 + 64)
+  const head = new Int32Array(HASH_SIZE).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE)
+
+  let start = 0
+  do {
+    const end = Math.min(start + MAX_STORED, data.length)
+    const final = end === data.length ? 1 : 0
+    const block = findMatches(data, start, end, head, prev)
+
+    if (block.cost < (end - start + 5) * 8) {
+      out.writeBits(final, 1)
+      out.writeBits(1, 2) // fixed Huffman codes
+      writeSymbols(out, block.symbols)
+    } else {
+      out.writeBits(final, 1)
+      out.writeBits(0, 2) // stored
+      out.alignToByte()
+      const len = end - start
+      out.writeBits(len, 16)
+      out.writeBits(~len & 0xffff, 16)
+      out.writeBytes(data.subarray(start, end))
+    }
+    start = end
+  } while (start < data.length)
+
+  return out.finish()
+}
+
+/**
+ * Decompresses a raw DEFLATE stream.
+ * @param data The buffer holding the DEFLATE stream.
+ * @param offset The offset of the stream in the buffer.
+ * @returns The decompressed data and the offset of the first byte after the stream.
+ * @throws {Error} If the stream is malformed or truncated.
+ */
+export function inflateRaw(
+  data: Uint8Array,
+  offset = 0
+): { data: Uint8Array; end: number } {
+  const input = new BitReader(data, offset)
+  const out = new ByteBuffer(data.length * 4 + 64)
+
+  let final = 0
+  while (!final) {
+    final = input.readBits(1)
+    const type = input.readBits(2)
+    if (type === 0) {
+      input.alignToByte()
+      const len = input.readBits(16)
+      const nlen = input.readBits(16)
+      if (len !== (~nlen & 0xffff)) {
+        throw new Error('Invalid DEFLATE stored block length')
+      }
+      out.pushBytes(input.readBytes(len))
+    } else if (type === 1) {
+      inflateBlock(input, out, FIXED_LIT_DECODER, FIXED_DIST_DECODER)
+    } else if (type === 2) {
+      const [lit, dist] = readDynamicTables(input)
+      inflateBlock(input, out, lit, dist)
+    } else {
+      throw new Error('Invalid DEFLATE block type')
+    }
+  }
+
+  input.alignToByte()
+  return { data: out.finish(), end: input.position }
+}
+
+/**
+ * Computes the CRC-32 checksum used by gzip.
+ * @param data The data to checksum.
+ * @returns The unsigned 32-bit checksum.
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Computes the Adler-32 checksum used by zlib.
+ * @param data The data to checksum.
+ * @returns The unsigned 32-bit checksum.
+ */
+export function adler32(data: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < data.length; ) {
+    // Reduce at most every 5552 bytes, before b can overflow.
+    const n = Math.min(5552, data.length - i)
+    for (let j = 0; j < n; j += 1, i += 1) {
+      a += data[i]!
+      b += a
+    }
+    a %= 65521
+    b %= 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n += 1) {
+    let c = n
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+// Symbols of a block: literals are < 256, a match is stored as
+// 256 + length followed by its distance.
+function findMatches(
+  data: Uint8Array,
+  start: number,
+  end: number,
+  head: Int32Array,
+  prev: Int32Array
+): { symbols: number[]; cost: number } {
+  const symbols: number[] = []
+  let cost = 3 + 7 // block header and end of block
+  const insert = (pos: number) => {
+    if (pos + MIN_MATCH <= data.length) {
+      const h = hash(data, pos)
+      prev[pos & (WINDOW_SIZE - 1)] = head[h]!
+      head[h] = pos
+    }
+  }
+
+  let i = start
+  while (i < end) {
+    let bestLen = 0
+    let bestDist = 0
+    if (i + MIN_MATCH <= end) {
+      const maxLen = Math.min(MAX_MATCH, end - i)
+      let candidate = head[hash(data, i)]!
+      let chain = MAX_CHAIN
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain > 0) {
+        let len = 0
+        while (len < maxLen && data[candidate + len] === data[i + len]) {
+          len += 1
+        }
+        if (len > bestLen) {
+          bestLen = len
+          bestDist = i - candidate
+          if (len === maxLen) {
+            break
+          }
+        }
+        const next = prev[candidate & (WINDOW_SIZE - 1)]!
+        if (next >= candidate) {
+          break // the slot was overwritten by a newer position
+        }
+        candidate = next
+        chain -= 1
+      }
+    }
+
+    if (bestLen >= MIN_MATCH) {
+      symbols.push(256 + bestLen, bestDist)
+      const lc = lengthCode(bestLen)
+      const dc = distCode(bestDist)
+      cost +=
+        FIXED_LIT_LENGTHS[257 + lc]! + LENGTH_EXTRA[lc]! + 5 + DIST_EXTRA[dc]!
+      for (let j = 0; j < bestLen; j += 1) {
+        insert(i + j)
+      }
+      i += bestLen
+    } else {
+      symbols.push(data[i]!)
+      cost += FIXED_LIT_LENGTHS[data[i]!]!
+      insert(i)
+      i += 1
+    }
+  }
+  return { symbols, cost }
+}
+
+function writeSymbols(out: BitWriter, symbols: number[]): void {
+  for (let i = 0; i < symbols.length; i += 1) {
+    const sym = symbols[i]!
+    if (sym < 256) {
+      out.writeCode(FIXED_LIT_CODES[sym]!, FIXED_LIT_LENGTHS[sym]!)
+      continue
+    }
+
+    const len = sym - 256
+    const dist = symbols[++i]!
+    const lc = lengthCode(len)
+    out.writeCode(FIXED_LIT_CODES[257 + lc]!, FIXED_LIT_LENGTHS[257 + lc]!)
+    out.writeBits(len - LENGTH_BASE[lc]!, LENGTH_EXTRA[lc]!)
+    const dc = distCode(dist)
+    out.writeCode(FIXED_DIST_CODES[dc]!, FIXED_DIST_LENGTHS[dc]!)
+    out.writeBits(dist - DIST_BASE[dc]!, DIST_EXTRA[dc]!)
+  }
+  out.writeCode(FIXED_LIT_CODES[256]!, FIXED_LIT_LENGTHS[256]!)
+}
+
+function hash(data: Uint8Array, pos: number): number {
+  const v = (data[pos]! << 16) | (data[pos + 1]! << 8) | data[pos + 2]!
+  return (Math.imul(v, 0x9e3779b1) >>> (32 - HASH_BITS)) & (HASH_SIZE - 1)
+}
+
+function lengthCode(len: number): number {
+  let code = LENGTH_BASE.length - 1
+  while (LENGTH_BASE[code]! > len) {
+    code -= 1
+  }
+  return code
+}
+
+function distCode(dist: number): number {
+  let code = DIST_BASE.length - 1
+  while (DIST_BASE[code]! > dist) {
+    code -= 1
+  }
+  return code
+}
+
+// Assigns canonical Huffman codes to code lengths (RFC 1951, section 3.2.2).
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const count = new Uint16Array(MAX_BITS + 1)
+  for (const len of lengths) {
+    count[len]! += 1
+  }
+  count[0] = 0
+  const next = new Uint16Array(MAX_BITS + 1)
+  let code = 0
+  for (let bits = 1; bits <= MAX_BITS; bits += 1) {
+    code = (code + count[bits - 1]!) << 1
+    next[bits] = code
+  }
+  const codes = new Uint16Array(lengths.length)
+  lengths.forEach((len, sym) => {
+    if (len > 0) {
+      codes[sym] = next[len]!
+      next[len]! += 1
+    }
+  })
+  return codes
+}
+
+interface Decoder {
+  // The number of codes of each length.
+  count: Uint16Array
+  // The symbols ordered by code.
+  symbols: Uint16Array
+}
+
+const FIXED_LIT_DECODER = buildDecoder(FIXED_LIT_LENGTHS)
+const FIXED_DIST_DECODER = buildDecoder(FIXED_DIST_LENGTHS)
+
+function buildDecoder(lengths: Uint8Array): Decoder {
+  const count = new Uint16Array(MAX_BITS + 1)
+  for (const len of lengths) {
+    count[len]! += 1
+  }
+
+  let left = 1
+  for (let bits = 1; bits <= MAX_BITS; bits += 1) {
+    left = (left << 1) - count[bits]!
+    if (left < 0) {
+      throw new Error('Invalid DEFLATE Huffman code lengths')
+    }
+  }
+
+  const offsets = new Uint16Array(MAX_BITS + 1)
+  for (let bits = 1; bits < MAX_BITS; bits += 1) {
+    offsets[bits + 1] = offsets[bits]! + count[bits]!
+  }
+  const symbols = new Uint16Array(lengths.length)
+  lengths.forEach((len, sym) => {
+    if (len > 0) {
+      symbols[offsets[len]!++] = sym
+    }
+  })
+  return { count, symbols }
+}
+
+function decodeSymbol(input: BitReader, decoder: Decoder): number {
+  let code = 0
+  let first = 0
+  let index = 0
+  for (let bits = 1; bits <= MAX_BITS; bits += 1) {
+    code |= input.readBits(1)
+    const count = decoder.count[bits]!
+    if (code - first < count) {
+      return decoder.symbols[index + code - first]!
+    }
+    index += count
+    first = (first + count) << 1
+    code <<= 1
+  }
+  throw new Error('Invalid DEFLATE Huffman code')
+}
+
+function readDynamicTables(input: BitReader): [Decoder, Decoder] {
+  const nlit = input.readBits(5) + 257
+  const ndist = input.readBits(5) + 1
+  const ncode = input.readBits(4) + 4
+  if (nlit > 286 || ndist > 30) {
+    throw new Error('Invalid DEFLATE dynamic block header')
+  }
+
+  const codeLengths = new Uint8Array(19)
+  for (let i = 0; i < ncode; i += 1) {
+    codeLengths[CODE_LENGTH_ORDER[i]!] = input.readBits(3)
+  }
+  const codeDecoder = buildDecoder(codeLengths)
+
+  const lengths = new Uint8Array(nlit + ndist)
+  for (let i = 0; i < lengths.length; ) {
+    const sym = decodeSymbol(input, codeDecoder)
+    if (sym < 16) {
+      lengths[i++] = sym
+      continue
+    }
+
+    let value = 0
+    let repeat: number
+    if (sym === 16) {
+      if (i === 0) {
+        throw new Error('Invalid DEFLATE code length repeat')
+      }
+      value = lengths[i - 1]!
+      repeat = 3 + input.readBits(2)
+    } else if (sym === 17) {
+      repeat = 3 + input.readBits(3)
+    } else {
+      repeat = 11 + input.readBits(7)
+    }
+    if (i + repeat > lengths.length) {
+      throw new Error('Invalid DEFLATE code length repeat')
+    }
+    lengths.fill(value, i, i + repeat)
+    i += repeat
+  }
+
+  if (lengths[256] === 0) {
+    throw new Error('Invalid DEFLATE dynamic block without end of block code')
+  }
+  return [
+    buildDecoder(lengths.subarray(0, nlit)),
+    buildDecoder(lengths.subarray(nlit))
+  ]
+}
+
+function inflateBlock(
+  input: BitReader,
+  out: ByteBuffer,
+  lit: Decoder,
+  dist: Decoder
+): void {
+  while (true) {
+    const sym = decodeSymbol(input, lit)
+    if (sym < 256) {
+      out.push(sym)
+    } else if (sym === 256) {
+      return
+    } else {
+      const lc = sym - 257
+      if (lc >= LENGTH_BASE.length) {
+        throw new Error('Invalid DEFLATE length code')
+      }
+      const len = LENGTH_BASE[lc]! + input.readBits(LENGTH_EXTRA[lc]!)
+      const dc = decodeSymbol(input, dist)
+      if (dc >= DIST_BASE.length) {
+        throw new Error('Invalid DEFLATE distance code')
+      }
+      const d = DIST_BASE[dc]! + input.readBits(DIST_EXTRA[dc]!)
+      out.copyWithin(d, len)
+    }
+  }
+}
+
+class BitWriter {
+  #buf: Uint8Array
+  #pos = 0
+  #bits = 0
+  #count = 0
+
+  constructor(capacity: number) {
+    this.#buf = new Uint8Array(Math.max(64, Math.ceil(capacity)))
+  }
+
+  // Writes a value least significant bit first.
+  writeBits(value: number, bits: number): void {
+    for (let i = 0; i < bits; i += 1) {
+      this.#bits |= ((value >>> i) & 1) << this.#count
+      this.#count += 1
+      if (this.#count === 8) {
+        this.#pushByte(this.#bits)
+        this.#bits = 0
+        this.#count = 0
+      }
+    }
+  }
+
+  // Writes a Huffman code, which is packed most significant bit first.
+  writeCode(code: number, bits: number): void {
+    for (let i = bits - 1; i >= 0; i -= 1) {
+      this.writeBits((code >>> i) & 1, 1)
+    }
+  }
+
+  alignToByte(): void {
+    if (this.#count > 0) {
+      this.#pushByte(this.#bits)
+      this.#bits = 0
+      this.#count = 0
+    }
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.#reserve(bytes.length)
+    this.#buf.set(bytes, this.#pos)
+    this.#pos += bytes.length
+  }
+
+  finish(): Uint8Array {
+    this.alignToByte()
+    return this.#buf.slice(0, this.#pos)
+  }
+
+  #pushByte(byte: number): void {
+    this.#reserve(1)
+    this.#buf[this.#pos++] = byte
+  }
+
+  #reserve(n: number): void {
+    if (this.#pos + n > this.#buf.length) {
+      const buf = new Uint8Array(Math.max(this.#buf.length * 2, this.#pos + n))
+      buf.set(this.#buf.subarray(0, this.#pos))
+      this.#buf = buf
+    }
+  }
+}
+
+class BitReader {
+  #data: Uint8Array
+  #pos: number
+  #bits = 0
+  #count = 0
+
+  constructor(data: Uint8Array, offset: number) {
+    this.#data = data
+    this.#pos = offset
+  }
+
+  // The offset of the next unread byte, after alignToByte.
+  get position(): number {
+    return this.#pos
+  }
+
+  readBits(bits: number): number {
+    while (this.#count < bits) {
+      if (this.#pos >= this.#data.length) {
+        throw new Error('Unexpected end of DEFLATE stream')
+      }
+      this.#bits |= this.#data[this.#pos++]! << this.#count
+      this.#count += 8
+    }
+    const value = this.#bits & ((1 << bits) - 1)
+    this.#bits >>>= bits
+    this.#count -= bits
+    return value
+  }
+
+  alignToByte(): void {
+    // Whole unread bytes in the bit buffer are handed back.
+    this.#pos -= this.#count >>> 3
+    this.#bits = 0
+    this.#count = 0
+  }
+
+  readBytes(n: number): Uint8Array {
+    if (this.#pos + n > this.#data.length) {
+      throw new Error('Unexpected end of DEFLATE stream')
+    }
+    const bytes = this.#data.subarray(this.#pos, this.#pos + n)
+    this.#pos += n
+    return bytes
+  }
+}
+
+class ByteBuffer {
+  #buf: Uint8Array
+  #pos = 0
+
+  constructor(capacity: number) {
+    this.#buf = new Uint8Array(capacity)
+  }
+
+  push(byte: number): void {
+    this.#reserve(1)
+    this.#buf[this.#pos++] = byte
+  }
+
+  pushBytes(bytes: Uint8Array): void {
+    this.#reserve(bytes.length)
+    this.#buf.set(bytes, this.#pos)
+    this.#pos += bytes.length
+  }
+
+  // Copies `len` bytes starting `dist` bytes back, the regions may overlap.
+  copyWithin(dist: number, len: number): void {
+    if (dist > this.#pos) {
+      throw new Error('Invalid DEFLATE distance too far back')
+    }
+    this.#reserve(len)
+    for (let i = 0; i < len; i += 1) {
+      this.#buf[this.#pos] = this.#buf[this.#pos - dist]!
+      this.#pos += 1
+    }
+  }
+
+  finish(): Uint8Array {
+    return this.#buf.slice(0, this.#pos)
+  }
+
+  #reserve(n: number): void {
+    if (this.#pos + n > this.#buf.length) {
+      const buf = new Uint8Array(Math.max(this.#buf.length * 2, this.#pos + n))
+      buf.set(this.#buf.subarray(0, this.#pos))
+      this.#buf = buf
+    }
+  }
+}
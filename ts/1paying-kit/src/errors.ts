@@ -0,0 +1,215 @@
+import type { ValidationIssue } from './validate.js'
+
+/**
+ * Stable codes of the errors thrown by the PayingKit.
+ */
+export type PayingKitErrorCode =
+  | 'PAYMENT_TIMEOUT'
+  | 'PAYMENT_ABORTED'
+  | 'PAYMENT_REJECTED'
+  | 'PAYMENT_NOT_FOUND'
+  | 'TRANSPORT_ERROR'
+  | 'INVALID_REQUIREMENTS'
+  | 'INVALID_SETTLE_RESPONSE'
+  | 'INVALID_KEY'
+  | 'INVALID_CONFIG'
+  | 'PAYMENT_POLICY_REJECTED'
+  | 'BUDGET_EXCEEDED'
+  | 'PAYMENT_NOT_CONFIRMED'
+  | 'INVALID_PAY_URL'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_PAYMENT_PAYLOAD'
+  | 'QR_DATA_TOO_LONG'
+  | 'PAYMENT_INVALID'
+  | 'SETTLEMENT_FAILED'
+  | 'INVALID_AMOUNT'
+
+/**
+ * The base class of all errors thrown by the PayingKit.
+ * Branch on `code` (or `instanceof`) rather than on the message.
+ */
+export class PayingKitError extends Error {
+  override name = 'PayingKitError'
+  /** A stable code identifying the kind of failure. */
+  readonly code: PayingKitErrorCode
+
+  /**
+   * @param code The stable error code.
+   * @param message A human-readable description.
+   * @param options Optional cause of the error.
+   */
+  constructor(
+    code: PayingKitErrorCode,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options)
+    this.code = code
+  }
+}
+
+/**
+ * Thrown when a payment did not complete within the allowed time.
+ */
+export class PaymentTimeoutError extends PayingKitError {
+  override name = 'PaymentTimeoutError'
+
+  constructor(message = 'Timeout waiting for payment payload') {
+    super('PAYMENT_TIMEOUT', message)
+  }
+}
+
+/**
+ * Thrown when waiting for a payment was cancelled through an AbortSignal.
+ */
+export class PaymentAbortedError extends PayingKitError {
+  override name = 'PaymentAbortedError'
+
+  constructor(reason?: unknown) {
+    super('PAYMENT_ABORTED', 'Waiting for payment was aborted', {
+      cause: reason
+    })
+  }
+}
+
+/**
+ * Thrown when the 1pay.ing service reports that a payment failed,
+ * e.g. the user rejected it or the wallet could not sign it.
+ */
+export class PaymentRejectedError extends PayingKitError {
+  override name = 'PaymentRejectedError'
+  /** The error code reported by the 1pay.ing service. */
+  readonly remoteCode: number
+  /** Additional error data reported by the 1pay.ing service. */
+  readonly data: unknown
+
+  /**
+   * @param error The error reported in the transaction state.
+   */
+  constructor(error: { code: number; message: string; data?: unknown }) {
+    super('PAYMENT_REJECTED', error.message)
+    this.remoteCode = error.code
+    this.data = error.data
+  }
+}
+
+/**
+ * Thrown when no pending payment exists for a transaction ID.
+ */
+export class PaymentNotFoundError extends PayingKitError {
+  override name = 'PaymentNotFoundError'
+  /** The transaction ID that was looked up. */
+  readonly txid: string
+
+  constructor(txid: string) {
+    super('PAYMENT_NOT_FOUND', `No pending payment found for txid ${txid}`)
+    this.txid = txid
+  }
+}
+
+/**
+ * Thrown when a request to the 1pay.ing service fails,
+ * either with a network error or an unexpected HTTP status.
+ */
+export class TransportError extends PayingKitError {
+  override name = 'TransportError'
+  /** The HTTP status, if a response was received. */
+  readonly status: number | null
+
+  /**
+   * @param message A human-readable description.
+   * @param status The HTTP status, if a response was received.
+   * @param options Optional cause of the error.
+   */
+  constructor(
+    message: string,
+    status: number | null = null,
+    options?: { cause?: unknown }
+  ) {
+    super('TRANSPORT_ERROR', message, options)
+    this.status = status
+  }
+}
+
+/**
+ * Thrown when payment requirements are malformed and can not be signed.
+ */
+export class InvalidRequirementsError extends PayingKitError {
+  override name = 'InvalidRequirementsError'
+  /** The structured validation issues, if the requirements were parsed but invalid. */
+  readonly issues: ValidationIssue[]
+
+  /**
+   * @param message A human-readable description.
+   * @param issues The validation issues.
+   * @param options Optional cause of the error.
+   */
+  constructor(
+    message: string,
+    issues: ValidationIssue[] = [],
+    options?: { cause?: unknown }
+  ) {
+    super('INVALID_REQUIREMENTS', message, options)
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when a `PAYMENT-RESPONSE` header can not be parsed.
+ */
+export class InvalidSettleResponseError extends PayingKitError {
+  override name = 'InvalidSettleResponseError'
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('INVALID_SETTLE_RESPONSE', message, options)
+  }
+}
+
+/**
+ * Thrown when a payment payload can not be decoded or does not match its scheme.
+ */
+export class InvalidPaymentPayloadError extends PayingKitError {
+  override name = 'InvalidPaymentPayloadError'
+  /** The structured validation issues, if the payload was parsed but invalid. */
+  readonly issues: ValidationIssue[]
+
+  /**
+   * @param message A human-readable description.
+   * @param issues The validation issues.
+   * @param options Optional cause of the error.
+   */
+  constructor(
+    message: string,
+    issues: ValidationIssue[] = [],
+    options?: { cause?: unknown }
+  ) {
+    super('INVALID_PAYMENT_PAYLOAD', message, options)
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when a pay URL can not be decoded into a signed message.
+ */
+export class InvalidPayUrlError extends PayingKitError {
+  override name = 'InvalidPayUrlError'
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('INVALID_PAY_URL', message, options)
+  }
+}
+
+/**
+ * Thrown when the `txid` of a pay URL is not a valid signature of its message,
+ * e.g. because the message, the public key or the `txid` was tampered with.
+ */
+export class InvalidSignatureError extends PayingKitError {
+  override name = 'InvalidSignatureError'
+  /** The transaction ID that failed verification. */
+  readonly txid: string
+
+  constructor(txid: string, message = `Invalid signature for txid ${txid}`) {
+    super('INVALID_SIGNATURE', message)
+    this.txid = txid
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FacilitatorClient,
+  PaymentInvalidError,
+  SettlementFailedError
+} from './facilitator.js'
+import {
+  PayingKitError,
+  TransportError,
+  encodePaymentSignatureHeader,
+  type PaymentPayload,
+  type PaymentRequirements
+} from './index.js'
+
+const accepted: PaymentRequirements = {
+  scheme: 'exact',
+  network: 'eip155:84532',
+  amount: '10000',
+  asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+  maxTimeoutSeconds: 60
+}
+
+const payload: PaymentPayload<unknown> = {
+  x402Version: 2,
+  accepted,
+  payload: { signature: '0x1234', authorization: {} }
+}
+
+function client(
+  handler: (url: string, body: any) => Response | Promise<Response>,
+  options: { timeoutMs?: number } = {}
+) {
+  const calls: { url: string; body: any }[] = []
+  const facilitator = new FacilitatorClient(
+    {
+      'eip155:84532': 'https://x402.example.com/facilitator/',
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp': 'https://payai.example.com'
+    },
+    {
+      ...options,
+      fetch: async (input, init) => {
+        const body = init?.body ? JSON.parse(String(init.body)) : null
+        calls.push({ url: String(input), body })
+        return handler(String(input), body)
+      }
+    }
+  )
+  return { facilitator, calls }
+}
+
+describe('FacilitatorClient', () => {
+  it('routes requests by network with v1 and v2 compatible bodies', async () => {
+    const { facilitator, calls } = client((url) =>
+      url.endsWith('/verify')
+        ? Response.json({ isValid: true, payer: '0xpayer' })
+        : Response.json({
+            success: true,
+            transaction: '0xabc',
+            network: 'eip155:84532'
+          })
+    )
+
+    await expect(facilitator.verify(payload, accepted)).resolves.toEqual({
+      isValid: true,
+      payer: '0xpayer'
+    })
+    await expect(
+      facilitator.settle(payload, accepted, { paymentHeader: 'raw' })
+    ).resolves.toMatchObject({ success: true, transaction: '0xabc' })
+
+    expect(calls.map((c) => c.url)).toEqual([
+      'https://x402.example.com/facilitator/verify',
+      'https://x402.example.com/facilitator/settle'
+    ])
+    expect(calls[0]!.body).toEqual({
+      x402Version: 2,
+      paymentHeader: encodePaymentSignatureHeader(payload),
+      paymentPayload: payload,
+      paymentRequirements: accepted
+    })
+    expect(calls[1]!.body.paymentHeader).toBe('raw')
+  })
+
+  it('throws typed errors with the reported reasons', async () => {
+    const { facilitator } = client((url) =>
+      url.endsWith('/verify')
+        ? Response.json(
+            { isValid: false, invalidReason: 'insufficient_funds' },
+            { status: 400 }
+          )
+        : Response.json({
+            success: false,
+            errorReason: 'invalid_transaction_state',
+            transaction: '',
+            network: 'eip155:84532'
+          })
+    )
+
+    const invalid = await facilitator.verify(payload, accepted).catch((e) => e)
+    expect(invalid).toBeInstanceOf(PaymentInvalidError)
+    expect(invalid.code).toBe('PAYMENT_INVALID')
+    expect(invalid.invalidReason).toBe('insufficient_funds')
+
+    const failed = await facilitator.settle(payload, accepted).catch((e) => e)
+    expect(failed).toBeInstanceOf(SettlementFailedError)
+    expect(failed.code).toBe('SETTLEMENT_FAILED')
+    expect(failed.errorReason).toBe('invalid_transaction_state')
+    expect(failed.settleResponse.network).toBe('eip155:84532')
+  })
+
+  it('throws transport errors for unexpected responses and timeouts', async () => {
+    const { facilitator } = client(
+      () => new Response('Internal Server Error', { status: 500 })
+    )
+    const err = await facilitator.settle(payload, accepted).catch((e) => e)
+    expect(err).toBeInstanceOf(TransportError)
+    expect(err.status).toBe(500)
+
+    const slow = client(() => new Promise<Response>(() => {}), {
+      timeoutMs: 10
+    }).facilitator
+    await expect(slow.verify(payload, accepted)).rejects.toThrow(
+      /timed out after 10ms/
+    )
+
+    const unknown = await facilitator
+      .settle(payload, { ...accepted, network: 'eip155:1' })
+      .catch((e) => e)
+    expect(unknown).toBeInstanceOf(PayingKitError)
+    expect(unknown.code).toBe('INVALID_CONFIG')
+  })
+
+  it('falls back to the default facilitator', () => {
+    const facilitator = new FacilitatorClient({
+      'icp:1': 'https://icp.example.com',
+      '*': 'https://x402.example.com/'
+    })
+    expect(facilitator.urlFor('icp:1')).toBe('https://icp.example.com')
+    expect(facilitator.urlFor('eip155:8453')).toBe('https://x402.example.com')
+    expect(new FacilitatorClient('https://x402.example.com').urlFor('x')).toBe(
+      'https://x402.example.com'
+    )
+  })
+
+  it('lists the supported kinds of all facilitators', async () => {
+    const { facilitator, calls } = client((url) =>
+      Response.json({
+        kinds: [
+          {
+            x402Version: 2,
+            scheme: 'exact',
+            network: url.includes('payai')
+              ? 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp'
+              : 'eip155:84532'
+          }
+        ]
+      })
+    )
+
+    const all = await facilitator.supported()
+    expect(all.kinds.map((k) => k.network)).toEqual([
+      'eip155:84532',
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp'
+    ])
+    await facilitator.supported('eip155:84532')
+    expect(calls.map((c) => c.url)).toEqual([
+      'https://x402.example.com/facilitator/supported',
+      'https://payai.example.com/supported',
+      'https://x402.example.com/facilitator/supported'
+    ])
+  })
+})
@@ -0,0 +1,377 @@
+import { PayingKitError, TransportError } from './errors.js'
+import { encodePaymentSignatureHeader } from './header.js'
+import type { FetchLike } from './transport.js'
+import type {
+  PaymentPayload,
+  PaymentPayloadV1,
+  PaymentRequirements,
+  PaymentRequirementsV1,
+  SettleResponse,
+  VerifyResponse,
+  X402Request
+} from './types.js'
+
+/**
+ * A payment scheme and network supported by a facilitator.
+ */
+export interface SupportedKind {
+  /** The version of the X402 protocol. */
+  x402Version: number
+  /** The payment scheme identifier, e.g. `exact`. */
+  scheme: string
+  /** The network identifier. */
+  network: string
+  /** Scheme-specific additional information, e.g. the Solana fee payer. */
+  extra?: Record<string, unknown>
+}
+
+/**
+ * The response of a facilitator's `/supported` endpoint.
+ */
+export interface SupportedResponse {
+  /** The supported schemes and networks. */
+  kinds: SupportedKind[]
+  /** The supported protocol extensions, if reported. */
+  extensions?: string[]
+}
+
+/**
+ * Options for a FacilitatorClient.
+ */
+export interface FacilitatorClientOptions {
+  /**
+   * The fetch implementation.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchLike
+  /**
+   * Timeout in milliseconds for each request.
+   * @default 30000 (30 seconds)
+   */
+  timeoutMs?: number
+}
+
+/**
+ * Options for a single facilitator request.
+ */
+export interface FacilitatorRequestOptions {
+  /**
+   * The raw `PAYMENT-SIGNATURE` or `X-PAYMENT` header, forwarded to facilitators that still read it.
+   * @default the encoded payment payload
+   */
+  paymentHeader?: string
+  /** Timeout in milliseconds, overriding the client's. */
+  timeoutMs?: number
+  /** An AbortSignal to cancel the request. */
+  signal?: AbortSignal
+}
+
+/**
+ * Thrown when a facilitator reports that a payment is not valid.
+ */
+export class PaymentInvalidError extends PayingKitError {
+  override name = 'PaymentInvalidError'
+  /** The reason reported by the facilitator, e.g. `insufficient_funds`. */
+  readonly invalidReason: string
+  /** The payer, if reported. */
+  readonly payer: string | null
+
+  /**
+   * @param response The verify response of the facilitator.
+   */
+  constructor(response: VerifyResponse) {
+    const reason = response.invalidReason || 'unknown'
+    super('PAYMENT_INVALID', `Payment is not valid, reason: ${reason}`)
+    this.invalidReason = reason
+    this.payer = response.payer ?? null
+  }
+}
+
+/**
+ * Thrown when a facilitator could not settle a payment.
+ */
+export class SettlementFailedError extends PayingKitError {
+  override name = 'SettlementFailedError'
+  /** The reason reported by the facilitator. */
+  readonly errorReason: string
+  /** The settle response of the facilitator. */
+  readonly settleResponse: SettleResponse
+
+  /**
+   * @param response The settle response of the facilitator.
+   */
+  constructor(response: SettleResponse) {
+    const reason = response.errorReason || 'unknown'
+    super(
+      'SETTLEMENT_FAILED',
+      `Payment settlement unsuccessful, reason: ${reason}`
+    )
+    this.errorReason = reason
+    this.settleResponse = response
+  }
+}
+
+/**
+ * A client for x402 facilitators, routing each payment to the facilitator of its network.
+ */
+export class FacilitatorClient {
+  #facilitators: Record<string, string>
+  #default: string | null
+  #fetch: FetchLike
+  #timeoutMs: number
+
+  /**
+   * @param facilitators The facilitator base URL for all networks, or the URLs keyed by network
+   * like the `X402_FACILITATORS` variable of a worker. A `*` key is used for other networks.
+   * @param options The fetch implementation and timeout.
+   */
+  constructor(
+    facilitators: string | Record<string, string>,
+    options: FacilitatorClientOptions = {}
+  ) {
+    const map =
+      typeof facilitators === 'string' ? { '*': facilitators } : facilitators
+    this.#facilitators = Object.fromEntries(
+      Object.entries(map).map(([network, url]) => [
+        network,
+        trimTrailingSlash(url)
+      ])
+    )
+    this.#default = this.#facilitators['*'] ?? null
+    this.#fetch =
+      options.fetch ?? ((input, init) => globalThis.fetch(input, init))
+    this.#timeoutMs = options.timeoutMs ?? 30000
+  }
+
+  /**
+   * Returns the facilitator base URL for a network.
+   * @param network The network, e.g. `eip155:8453`.
+   * @returns The base URL, or null if no facilitator is configured.
+   */
+  urlFor(network: string): string | null {
+    return this.#facilitators[network] ?? this.#default
+  }
+
+  /**
+   * Verifies a payment without settling it.
+   * @param paymentPayload The payment payload from the client.
+   * @param paymentRequirements The accepted payment option.
+   * @param options The raw header to forward, a timeout and an AbortSignal.
+   * @returns The verify response of a valid payment.
+   * @throws {PaymentInvalidError} If the facilitator reports the payment as invalid.
+   * @throws {PayingKitError} With code `INVALID_CONFIG` if no facilitator is configured for the network.
+   * @throws {TransportError} If the facilitator can not be reached or responds with an unexpected status.
+   */
+  async verify(
+    paymentPayload: PaymentPayload<unknown> | PaymentPayloadV1<unknown>,
+    paymentRequirements: PaymentRequirements | PaymentRequirementsV1,
+    options: FacilitatorRequestOptions = {}
+  ): Promise<VerifyResponse> {
+    const data = await this.#post(
+      'verify',
+      { paymentPayload, paymentRequirements },
+      options
+    )
+    if (!isObject(data) || typeof data['isValid'] !== 'boolean') {
+      throw new TransportError('Invalid verify response from the facilitator')
+    }
+    const response = data as unknown as VerifyResponse
+    if (!response.isValid) {
+      throw new PaymentInvalidError(response)
+    }
+    return response
+  }
+
+  /**
+   * Settles a payment on chain.
+   * @param paymentPayload The payment payload from the client.
+   * @param paymentRequirements The accepted payment option.
+   * @param options The raw header to forward, a timeout and an AbortSignal.
+   * @returns The settle response of a successful settlement.
+   * @throws {SettlementFailedError} If the facilitator could not settle the payment.
+   * @throws {PayingKitError} With code `INVALID_CONFIG` if no facilitator is configured for the network.
+   * @throws {TransportError} If the facilitator can not be reached or responds with an unexpected status.
+   */
+  async settle(
+    paymentPayload: PaymentPayload<unknown> | PaymentPayloadV1<unknown>,
+    paymentRequirements: PaymentRequirements | PaymentRequirementsV1,
+    options: FacilitatorRequestOptions = {}
+  ): Promise<SettleResponse> {
+    const data = await this.#post(
+      'settle',
+      { paymentPayload, paymentRequirements },
+      options
+    )
+    if (!isObject(data) || typeof data['success'] !== 'boolean') {
+      throw new TransportError('Invalid settle response from the facilitator')
+    }
+    const response = data as unknown as SettleResponse
+    if (!response.success) {
+      throw new SettlementFailedError(response)
+    }
+    return response
+  }
+
+  /**
+   * Lists the schemes and networks the facilitators support.
+   * @param network Only ask the facilitator of this network, otherwise all configured facilitators.
+   * @param options A timeout and an AbortSignal.
+   * @returns The supported kinds of all asked facilitators.
+   * @throws {TransportError} If a facilitator can not be reached or responds with an unexpected status.
+   */
+  async supported(
+    network?: string,
+    options: Omit<FacilitatorRequestOptions, 'paymentHeader'> = {}
+  ): Promise<SupportedResponse> {
+    const urls =
+      network === undefined
+        ? [...new Set(Object.values(this.#facilitators))]
+        : [this.#requireUrl(network)]
+    const result: SupportedResponse = { kinds: [] }
+    for (const url of urls) {
+      const data = (await this.#request(
+        `${url}/supported`,
+        {},
+        options
+      )) as SupportedResponse
+      result.kinds.push(...(data.kinds ?? []))
+      if (data.extensions) {
+        result.extensions = [
+          ...new Set([...(result.extensions ?? []), ...data.extensions])
+        ]
+      }
+    }
+    return result
+  }
+
+  async #post(
+    endpoint: 'verify' | 'settle',
+    body: X402Request<unknown>,
+    options: FacilitatorRequestOptions
+  ): Promise<unknown> {
+    const url = this.#requireUrl(body.paymentRequirements.network)
+    return this.#request(
+      `${url}/${endpoint}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          // Older facilitators read the version and the raw header instead of the payload.
+          x402Version: body.paymentPayload.x402Version,
+          paymentHeader:
+            options.paymentHeader ??
+            encodePaymentSignatureHeader(body.paymentPayload),
+          ...body
+        })
+      },
+      options,
+      // Facilitators may reject invalid payments with a 4xx status and a regular body.
+      endpoint === 'verify' ? 'invalidReason' : 'errorReason'
+    )
+  }
+
+  async #request(
+    url: string,
+    init: RequestInit,
+    options: Omit<FacilitatorRequestOptions, 'paymentHeader'>,
+    reasonField?: 'invalidReason' | 'errorReason'
+  ): Promise<unknown> {
+    const controller = new AbortController()
+    const timeoutMs = options.timeoutMs ?? this.#timeoutMs
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new TransportError(
+            `Facilitator request timed out after ${timeoutMs}ms`
+          )
+        ),
+      timeoutMs
+    )
+    const onAbort = () => controller.abort(options.signal?.reason)
+    if (options.signal?.aborted) {
+      onAbort()
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+
+    // Custom fetch implementations may ignore the signal, so the abort is raced as well.
+    const aborted = new Promise<never>((_, reject) => {
+      if (controller.signal.aborted) {
+        reject(controller.signal.reason)
+      }
+      controller.signal.addEventListener(
+        'abort',
+        () => reject(controller.signal.reason),
+        { once: true }
+      )
+    })
+    aborted.catch(() => {})
+
+    try {
+      const res = await Promise.race([
+        this.#fetch(url, {
+          ...init,
+          signal: controller.signal
+        }),
+        aborted
+      ])
+      const text = await Promise.race([res.text(), aborted])
+      let data: unknown = undefined
+      try {
+        data = JSON.parse(text)
+      } catch {
+        // Reported below.
+      }
+      if (res.ok && data !== undefined) {
+        return data
+      }
+      if (
+        reasonField &&
+        res.status < 500 &&
+        isObject(data) &&
+        typeof data[reasonField] === 'string'
+      ) {
+        return data
+      }
+      throw new TransportError(
+        `Facilitator request to ${url} failed, status ${res.status}: ${text}`,
+        res.status
+      )
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw controller.signal.reason
+      }
+      if (err instanceof PayingKitError) {
+        throw err
+      }
+      throw new TransportError(
+        `Facilitator request to ${url} failed: ${String(err)}`,
+        null,
+        { cause: err }
+      )
+    } finally {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  #requireUrl(network: string): string {
+    const url = this.urlFor(network)
+    if (!url) {
+      throw new PayingKitError(
+        'INVALID_CONFIG',
+        `No facilitator configured for network ${network}`
+      )
+    }
+    return url
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
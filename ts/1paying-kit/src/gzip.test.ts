@@ -1,7 +1,18 @@
 import { randomBytes } from 'node:crypto'
-import { gunzipSync, gzipSync, constants as zlibConstants } from 'node:zlib'
+import {
+  deflateSync,
+  gunzipSync,
+  gzipSync,
+  constants as zlibConstants
+} from 'node:zlib'
 import { describe, expect, it } from 'vitest'
-import { gzipCompress, gzipDecompress, isGzip } from './gzip.js'
+import {
+  gzipCompress,
+  gzipCompressSync,
+  gzipDecompress,
+  gzipDecompressSync,
+  isGzip
+} from './gzip.js'
 
 const encoder = new TextEncoder()
 
@@ -95,3 +106,67 @@ describe('gzip compression utilities', async () => {
     }
   })
 })
+
+describe('bundled DEFLATE codec', () => {
+  it('round-trips through node:zlib in both directions', () => {
+    const inputs = [
+      new Uint8Array(0),
+      encoder.encode('hello hello hello hello'),
+      makeRepeatingData(200_000),
+      new Uint8Array(randomBytes(70_000))
+    ]
+    for (const input of inputs) {
+      const ours = gzipCompressSync(input)
+      expect(isGzip(ours)).toBe(true)
+      expect(new Uint8Array(gunzipSync(ours))).toEqual(input)
+      expect(gzipDecompressSync(ours)).toEqual(input)
+
+      // zlib uses dynamic Huffman blocks by default.
+      expect(gzipDecompressSync(new Uint8Array(gzipSync(input)))).toEqual(input)
+      expect(gzipDecompressSync(new Uint8Array(deflateSync(input)))).toEqual(
+        input
+      )
+    }
+  })
+
+  it('compresses repetitive data and stores incompressible data', () => {
+    expect(gzipCompressSync(makeRepeatingData(4096)).length).toBeLessThan(100)
+
+    const random = new Uint8Array(randomBytes(4096))
+    expect(gzipCompressSync(random).length).toBeLessThanOrEqual(
+      random.length + 18 + 5
+    )
+  })
+
+  it('is deterministic', () => {
+    const input = encoder.encode('{"x402Version":2,"accepts":[]}')
+    expect(gzipCompressSync(input)).toEqual(gzipCompressSync(input))
+  })
+
+  it('rejects corrupted data', () => {
+    const compressed = gzipCompressSync(makeRepeatingData(128))
+
+    const crcCorrupted = compressed.slice()
+    crcCorrupted[crcCorrupted.length - 8]! ^= 0xff
+    expect(() => gzipDecompressSync(crcCorrupted)).toThrow(
+      'Gzip CRC-32 mismatch'
+    )
+    expect(() => gzipDecompressSync(compressed.slice(0, -1))).toThrow()
+    expect(() =>
+      gzipDecompressSync(new Uint8Array([...compressed, 0]))
+    ).toThrow('Unexpected data after gzip stream')
+
+    const reserved = compressed.slice()
+    reserved[10] = (reserved[10]! & ~0x06) | 0x06
+    expect(() => gzipDecompressSync(reserved)).toThrow(
+      'Invalid DEFLATE block type'
+    )
+
+    const adler = new Uint8Array(deflateSync(makeRepeatingData(128)))
+    adler[adler.length - 1]! ^= 0xff
+    expect(() => gzipDecompressSync(adler)).toThrow('Zlib Adler-32 mismatch')
+    expect(() => gzipDecompressSync(new Uint8Array([1, 2, 3]))).toThrow(
+      'Invalid zlib header'
+    )
+  })
+})
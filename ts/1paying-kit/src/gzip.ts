@@ -1,6 +1,13 @@
+import { adler32, crc32, deflateRaw, inflateRaw } from './deflate.js'
+
 const GZIP_ID1 = 0x1f
 const GZIP_ID2 = 0x8b
 const GZIP_CM_DEFLATE = 8
+const GZIP_OS_UNKNOWN = 0xff
+const GZIP_FHCRC = 0x02
+const GZIP_FEXTRA = 0x04
+const GZIP_FNAME = 0x08
+const GZIP_FCOMMENT = 0x10
 
 const supportsNativeCompression =
   typeof CompressionStream !== 'undefined' &&
@@ -28,9 +35,15 @@ export function toArrayBuffer(data: Uint8Array): ArrayBuffer {
   return copy.buffer
 }
 
+/**
+ * Compresses data to the Gzip format, with CompressionStream if the runtime has it
+ * and with the bundled DEFLATE encoder otherwise.
+ * @param data The data to compress.
+ * @returns A promise that resolves with the Gzip data.
+ */
 export async function gzipCompress(data: Uint8Array): Promise<Uint8Array> {
   if (!supportsNativeCompression) {
-    return Promise.resolve(data)
+    return gzipCompressSync(data)
   }
   const stream = new CompressionStream('gzip')
   const chunk = toArrayBuffer(data)
@@ -39,9 +52,16 @@ export async function gzipCompress(data: Uint8Array): Promise<Uint8Array> {
   return new Uint8Array(buffer)
 }
 
+/**
+ * Decompresses Gzip or zlib data, with DecompressionStream if the runtime has it
+ * and with the bundled DEFLATE decoder otherwise.
+ * @param data The compressed data.
+ * @returns A promise that resolves with the decompressed data.
+ * @throws {Error} If the data is malformed or fails its checksum.
+ */
 export async function gzipDecompress(data: Uint8Array): Promise<Uint8Array> {
   if (!supportsNativeDecompression) {
-    return Promise.resolve(data)
+    return gzipDecompressSync(data)
   }
 
   const type = isGzip(data) ? 'gzip' : 'deflate'
@@ -52,6 +72,39 @@ export async function gzipDecompress(data: Uint8Array): Promise<Uint8Array> {
   return new Uint8Array(buffer)
 }
 
+/**
+ * Compresses data to the Gzip format with the bundled DEFLATE encoder.
+ * The output is the same in every runtime.
+ * @param data The data to compress.
+ * @returns The Gzip data.
+ */
+export function gzipCompressSync(data: Uint8Array): Uint8Array {
+  const body = deflateRaw(data)
+  const out = new Uint8Array(10 + body.length + 8)
+  out.set([GZIP_ID1, GZIP_ID2, GZIP_CM_DEFLATE, 0, 0, 0, 0, 0, 0])
+  out[9] = GZIP_OS_UNKNOWN
+  out.set(body, 10)
+  const footer = new DataView(out.buffer, 10 + body.length)
+  footer.setUint32(0, crc32(data), true)
+  footer.setUint32(4, data.length >>> 0, true)
+  return out
+}
+
+/**
+ * Decompresses Gzip or zlib data with the bundled DEFLATE decoder.
+ * @param data The compressed data.
+ * @returns The decompressed data.
+ * @throws {Error} If the data is malformed or fails its checksum.
+ */
+export function gzipDecompressSync(data: Uint8Array): Uint8Array {
+  return isGzip(data) ? gunzip(data) : zlibInflate(data)
+}
+
+/**
+ * Decompresses data if it is Gzip or zlib compressed, and returns it unchanged otherwise.
+ * @param data The data to decompress.
+ * @returns A promise that resolves with the decompressed or original data.
+ */
 export async function tryDecompress(data: Uint8Array): Promise<Uint8Array> {
   try {
     return await gzipDecompress(data)
@@ -73,3 +126,69 @@ export function isGzip(data: Uint8Array): boolean {
     data[2] === GZIP_CM_DEFLATE
   )
 }
+
+function gunzip(data: Uint8Array): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const flags = data[3]!
+  if (flags & 0xe0) {
+    throw new Error('Invalid gzip header flags')
+  }
+
+  let pos = 10
+  if (flags & GZIP_FEXTRA) {
+    pos += 2 + view.getUint16(pos, true)
+  }
+  if (flags & GZIP_FNAME) {
+    pos = data.indexOf(0, pos) + 1
+  }
+  if (flags & GZIP_FCOMMENT) {
+    pos = data.indexOf(0, pos) + 1
+  }
+  if (flags & GZIP_FHCRC) {
+    pos += 2
+  }
+  if (pos <= 0 || pos > data.length) {
+    throw new Error('Truncated gzip header')
+  }
+
+  const { data: out, end } = inflateRaw(data, pos)
+  if (end + 8 !== data.length) {
+    throw new Error(
+      end + 8 > data.length
+        ? 'Truncated gzip footer'
+        : 'Unexpected data after gzip stream'
+    )
+  }
+  if (view.getUint32(end, true) !== crc32(out)) {
+    throw new Error('Gzip CRC-32 mismatch')
+  }
+  if (view.getUint32(end + 4, true) !== out.length >>> 0) {
+    throw new Error('Gzip size mismatch')
+  }
+  return out
+}
+
+function zlibInflate(data: Uint8Array): Uint8Array {
+  if (
+    data.length < 6 ||
+    (data[0]! & 0x0f) !== GZIP_CM_DEFLATE ||
+    ((data[0]! << 8) | data[1]!) % 31 !== 0 ||
+    data[1]! & 0x20 // a preset dictionary is not supported
+  ) {
+    throw new Error('Invalid zlib header')
+  }
+
+  const { data: out, end } = inflateRaw(data, 2)
+  if (end + 4 !== data.length) {
+    throw new Error(
+      end + 4 > data.length
+        ? 'Truncated zlib footer'
+        : 'Unexpected data after zlib stream'
+    )
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (view.getUint32(end, false) !== adler32(out)) {
+    throw new Error('Zlib Adler-32 mismatch')
+  }
+  return out
+}
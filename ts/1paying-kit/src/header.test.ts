@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  InvalidPaymentPayloadError,
+  InvalidRequirementsError,
+  InvalidSettleResponseError,
+  PayingKit,
+  base64ToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  decodePaymentRequiredHeader,
+  decodePaymentResponseHeader,
+  decodePaymentSignatureHeader,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader,
+  encodePaymentSignatureHeader,
+  parsePayUrl,
+  type PaymentRequired
+} from './index.js'
+
+const requirements: PaymentRequired = {
+  x402Version: 2,
+  resource: {
+    url: 'https://example.1pay.ing/1paying-coffee/Cappuccino',
+    description: '大杯燕麦拿铁 ☕️',
+    mimeType: 'text/markdown'
+  },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 60
+    }
+  ]
+}
+
+describe('header codec', () => {
+  it('round-trips non-Latin-1 text in PAYMENT-REQUIRED', async () => {
+    const header = encodePaymentRequiredHeader(requirements)
+    expect(header).toMatch(/^[A-Za-z0-9+/]+=*$/)
+    expect(decodePaymentRequiredHeader(header)).toEqual(requirements)
+
+    const kit = new PayingKit()
+    const { payUrl } = await kit.tryGetPayUrl(
+      new Response(null, {
+        status: 402,
+        headers: { 'PAYMENT-REQUIRED': header }
+      })
+    )
+    const parsed = await parsePayUrl(payUrl!)
+    expect(parsed.message.payload).toEqual(requirements)
+  })
+
+  it('rejects malformed PAYMENT-REQUIRED headers', () => {
+    expect(() => decodePaymentRequiredHeader('%%%')).toThrow(
+      'Failed to parse the payment requirements'
+    )
+    expect(() =>
+      decodePaymentRequiredHeader(
+        encodePaymentRequiredHeader({ ...requirements, accepts: [] })
+      )
+    ).toThrow(InvalidRequirementsError)
+  })
+
+  it('round-trips payment payloads and settle responses', () => {
+    const payload = {
+      x402Version: 2,
+      accepted: requirements.accepts[0]!,
+      payload: { memo: '咖啡' }
+    }
+    expect(
+      decodePaymentSignatureHeader(encodePaymentSignatureHeader(payload))
+    ).toEqual(payload)
+    expect(() => decodePaymentSignatureHeader('e30=')).toThrow(
+      InvalidPaymentPayloadError
+    )
+    expect(() => decodePaymentSignatureHeader('%%%')).toThrow(
+      InvalidPaymentPayloadError
+    )
+
+    const settle = {
+      success: true,
+      transaction: '0xabc',
+      network: 'eip155:84532'
+    }
+    expect(
+      decodePaymentResponseHeader(encodePaymentResponseHeader(settle))
+    ).toEqual(settle)
+    expect(
+      new PayingKit().getSettleResponse(
+        new Headers({
+          'PAYMENT-RESPONSE': encodePaymentResponseHeader(settle)
+        })
+      )
+    ).toEqual(settle)
+    expect(() => decodePaymentResponseHeader('e30=')).toThrow(
+      InvalidSettleResponseError
+    )
+  })
+})
+
+describe('base64 utilities', () => {
+  it('encodes large arrays without overflowing the stack', () => {
+    // Spreading this many arguments into String.fromCharCode throws a RangeError.
+    const bytes = new Uint8Array(512 * 1024).map((_, i) => i % 251)
+    const decoded = base64ToBytes(bytesToBase64(bytes))
+    expect(Buffer.compare(decoded, bytes)).toBe(0)
+    expect(Buffer.compare(base64ToBytes(bytesToBase64Url(bytes)), bytes)).toBe(
+      0
+    )
+  })
+})
@@ -0,0 +1,141 @@
+import {
+  InvalidPaymentPayloadError,
+  InvalidRequirementsError,
+  InvalidSettleResponseError
+} from './errors.js'
+import type {
+  PaymentPayload,
+  PaymentPayloadV1,
+  PaymentRequired,
+  PaymentRequirementsResponse,
+  SettleResponse
+} from './types.js'
+import { base64ToString, stringToBase64 } from './utils.js'
+import {
+  formatIssues,
+  validatePaymentPayload,
+  validatePaymentPayloadV1,
+  validatePaymentRequiredAny,
+  validateSettleResponse
+} from './validate.js'
+
+/**
+ * Encodes payment requirements for the `PAYMENT-REQUIRED` header, as base64 of UTF-8 JSON.
+ * @param requirements The x402 v2 or v1 payment requirements.
+ * @returns The header value.
+ */
+export function encodePaymentRequiredHeader(
+  requirements: PaymentRequired | PaymentRequirementsResponse
+): string {
+  return stringToBase64(JSON.stringify(requirements))
+}
+
+/**
+ * Decodes and validates a `PAYMENT-REQUIRED` header.
+ * @param value The header value.
+ * @returns The x402 v2 or v1 payment requirements.
+ * @throws {InvalidRequirementsError} If the header can not be decoded or the requirements are malformed.
+ */
+export function decodePaymentRequiredHeader(
+  value: string
+): PaymentRequired | PaymentRequirementsResponse {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(base64ToString(value))
+  } catch (err) {
+    throw new InvalidRequirementsError(
+      'Failed to parse the payment requirements',
+      [],
+      { cause: err }
+    )
+  }
+
+  const checked = validatePaymentRequiredAny(parsed)
+  if (!checked.ok) {
+    throw new InvalidRequirementsError(
+      `Invalid payment requirements: ${formatIssues(checked.issues)}`,
+      checked.issues
+    )
+  }
+  return checked.value
+}
+
+/**
+ * Encodes a payment payload for the `PAYMENT-SIGNATURE` (or x402 v1 `X-PAYMENT`) header.
+ * @param payload The x402 v2 or v1 payment payload.
+ * @returns The header value.
+ */
+export function encodePaymentSignatureHeader(
+  payload: PaymentPayload<unknown> | PaymentPayloadV1<unknown>
+): string {
+  return stringToBase64(JSON.stringify(payload))
+}
+
+/**
+ * Decodes a `PAYMENT-SIGNATURE` (or x402 v1 `X-PAYMENT`) header.
+ * The scheme-specific payload is not inspected, see `decodePaymentPayload` for that.
+ * @param value The header value.
+ * @returns The x402 v2 or v1 payment payload.
+ * @throws {InvalidPaymentPayloadError} If the header can not be decoded or the payment payload is malformed.
+ */
+export function decodePaymentSignatureHeader(
+  value: string
+): PaymentPayload<unknown> | PaymentPayloadV1<unknown> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(base64ToString(value))
+  } catch (err) {
+    throw new InvalidPaymentPayloadError(
+      'Failed to parse the payment payload',
+      [],
+      { cause: err }
+    )
+  }
+
+  const checked =
+    typeof parsed === 'object' && parsed !== null && 'accepted' in parsed
+      ? validatePaymentPayload(parsed)
+      : validatePaymentPayloadV1(parsed)
+  if (!checked.ok) {
+    throw new InvalidPaymentPayloadError(
+      `Invalid payment payload: ${formatIssues(checked.issues)}`,
+      checked.issues
+    )
+  }
+  return checked.value
+}
+
+/**
+ * Encodes a settle response for the `PAYMENT-RESPONSE` header.
+ * @param settle The settle response.
+ * @returns The header value.
+ */
+export function encodePaymentResponseHeader(settle: SettleResponse): string {
+  return stringToBase64(JSON.stringify(settle))
+}
+
+/**
+ * Decodes and validates a `PAYMENT-RESPONSE` (or x402 v1 `X-PAYMENT-RESPONSE`) header.
+ * @param value The header value.
+ * @returns The settle response.
+ * @throws {InvalidSettleResponseError} If the header can not be decoded or the settle response is malformed.
+ */
+export function decodePaymentResponseHeader(value: string): SettleResponse {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(base64ToString(value))
+  } catch (err) {
+    throw new InvalidSettleResponseError(
+      'Failed to parse the payment response',
+      { cause: err }
+    )
+  }
+
+  const checked = validateSettleResponse(parsed)
+  if (!checked.ok) {
+    throw new InvalidSettleResponseError(
+      `Invalid payment response: ${formatIssues(checked.issues)}`
+    )
+  }
+  return checked.value
+}
@@ -1,5 +1,17 @@
 import { describe, expect, it } from 'vitest'
-import { payingKit, type PaymentRequirementsResponse } from './index.js'
+import {
+  InvalidRequirementsError,
+  InvalidSettleResponseError,
+  PayingKit,
+  PaymentAbortedError,
+  PaymentRejectedError,
+  PaymentTimeoutError,
+  TransportError,
+  payingKit,
+  stringToBase64,
+  type PaymentRequired,
+  type PaymentRequirementsResponse
+} from './index.js'
 
 describe('PayingKit#getPayUrl', () => {
   it('encodes requirements into a deterministic payment URL', async () => {
@@ -113,3 +125,217 @@ describe('PayingKit#getPayUrl', () => {
     expect(payUrl2.length < payUrl.length * 2).toBe(true)
   })
 })
+
+describe('PayingKit config', () => {
+  it('uses custom endpoints and fetch implementation', async () => {
+    const calls: string[] = []
+    const kit = new PayingKit({
+      payingEndpoint: 'https://pay.example.com/sign/',
+      apiEndpoint: 'http://localhost:8787/tx',
+      fetch: async (input, init) => {
+        calls.push(`${init?.method ?? 'GET'} ${String(input)}`)
+        return Response.json({ status: 'completed', result: 'eyJ4IjoxfQ' })
+      }
+    })
+
+    const { payUrl, txid } = await kit.getPayUrl({
+      x402Version: 2,
+      resource: { url: 'https://api.example.com/premium-data' },
+      accepts: [
+        {
+          scheme: 'exact',
+          network: 'eip155:84532',
+          amount: '10000',
+          asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+          payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+          maxTimeoutSeconds: 60
+        }
+      ]
+    })
+    expect(payUrl.startsWith('https://pay.example.com/sign?action=pay#')).toBe(
+      true
+    )
+
+    const payload = await kit.waitForPaymentPayload(txid, {
+      initialDelayMs: 0
+    })
+    expect(payload).toBe('eyJ4IjoxfQ')
+
+    await kit.submitSettleResult(txid, {
+      success: true,
+      transaction: '0xabc',
+      network: 'eip155:84532'
+    })
+    expect(calls).toEqual([
+      `GET http://localhost:8787/tx/${txid}`,
+      `PUT http://localhost:8787/tx/${txid}/status`
+    ])
+  })
+})
+
+describe('PayingKit#fetch', () => {
+  const paymentRequired: PaymentRequired = {
+    x402Version: 2,
+    resource: { url: 'https://shop.example.com/api/make-coffee' },
+    accepts: [
+      {
+        scheme: 'exact',
+        network: 'eip155:84532',
+        amount: '10000',
+        asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+        maxTimeoutSeconds: 60
+      }
+    ]
+  }
+
+  const makeKit = (
+    x402Version: number,
+    header: string,
+    settleHeader = stringToBase64(
+      JSON.stringify({
+        success: true,
+        transaction: '0xabc',
+        network: 'eip155:84532'
+      })
+    )
+  ) => {
+    const seen: { method: string; body: string; payment: string | null }[] = []
+    const kit = new PayingKit({
+      fetch: async (input, init) => {
+        const req = new Request(input, init)
+        if (req.url.startsWith('https://api.1pay.ing/tx/')) {
+          if (req.method === 'PUT') {
+            return new Response(null, { status: 204 })
+          }
+          return Response.json({ status: 'completed', result: 'cGF5bG9hZA' })
+        }
+
+        const payment = req.headers.get(header)
+        seen.push({ method: req.method, body: await req.text(), payment })
+        if (!payment) {
+          return new Response('{}', {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': stringToBase64(
+                JSON.stringify({ ...paymentRequired, x402Version })
+              )
+            }
+          })
+        }
+        return Response.json(
+          { result: 'coffee' },
+          { headers: { 'PAYMENT-RESPONSE': settleHeader } }
+        )
+      }
+    })
+    return { kit, seen }
+  }
+
+  it('pays and replays the original request', async () => {
+    const { kit, seen } = makeKit(2, 'PAYMENT-SIGNATURE')
+    const opened: string[] = []
+    const res = await kit.fetch(
+      'https://shop.example.com/api/make-coffee',
+      { method: 'POST', body: JSON.stringify({ size: 'grande' }) },
+      { initialDelayMs: 0, openPayUrl: (_, txid) => void opened.push(txid) }
+    )
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ result: 'coffee' })
+    expect(res.txid).toBe(opened[0])
+    expect(res.settleResponse).toMatchObject({ success: true })
+    expect(seen).toEqual([
+      { method: 'POST', body: '{"size":"grande"}', payment: null },
+      { method: 'POST', body: '{"size":"grande"}', payment: 'cGF5bG9hZA' }
+    ])
+    expect(await kit.listPending()).toEqual([])
+  })
+
+  it('uses the X-PAYMENT header for x402 v1', async () => {
+    const { kit, seen } = makeKit(1, 'X-PAYMENT')
+    const res = await kit.fetch(
+      'https://shop.example.com/api/make-coffee',
+      undefined,
+      {
+        initialDelayMs: 0,
+        openPayUrl: () => {}
+      }
+    )
+    expect(res.status).toBe(200)
+    expect(seen[1]?.payment).toBe('cGF5bG9hZA')
+  })
+
+  it('keeps paid responses with a malformed PAYMENT-RESPONSE', async () => {
+    const { kit } = makeKit(2, 'PAYMENT-SIGNATURE', 'not-base64-json')
+    const res = await kit.fetch(
+      'https://shop.example.com/api/make-coffee',
+      undefined,
+      { initialDelayMs: 0, openPayUrl: () => {} }
+    )
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ result: 'coffee' })
+    expect(res.txid).toBeTruthy()
+    expect(res.settleResponse).toBeNull()
+    expect(res.settleError).toBeInstanceOf(InvalidSettleResponseError)
+  })
+
+  it('passes through responses that need no payment', async () => {
+    const kit = new PayingKit({ fetch: async () => new Response('free') })
+    const res = await kit.fetch('https://shop.example.com/free')
+    expect(await res.text()).toBe('free')
+    expect(res.txid).toBeNull()
+  })
+})
+
+describe('PayingKit errors', () => {
+  const fast = { initialDelayMs: 0, pollIntervalMs: 1, jitter: 0 }
+  const kitWith = (handler: () => Response) =>
+    new PayingKit({ transport: 'polling', fetch: async () => handler() })
+
+  it('rejects with typed errors', async () => {
+    const rejected = kitWith(() =>
+      Response.json({
+        status: 'error',
+        error: { code: 4001, message: 'User rejected', data: { id: 1 } }
+      })
+    ).waitForPaymentPayload('tx', fast)
+    await expect(rejected).rejects.toBeInstanceOf(PaymentRejectedError)
+    await expect(rejected).rejects.toMatchObject({
+      code: 'PAYMENT_REJECTED',
+      remoteCode: 4001,
+      data: { id: 1 }
+    })
+
+    await expect(
+      kitWith(
+        () => new Response('gone', { status: 410 })
+      ).waitForPaymentPayload('tx', fast)
+    ).rejects.toMatchObject({ code: 'TRANSPORT_ERROR', status: 410 })
+
+    const pending = () => Response.json({ status: 'pending' })
+    await expect(
+      kitWith(pending).waitForPaymentPayload('tx', { ...fast, timeoutMs: 10 })
+    ).rejects.toBeInstanceOf(PaymentTimeoutError)
+
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+    await expect(
+      kitWith(pending).waitForPaymentPayload('tx', {
+        ...fast,
+        signal: controller.signal
+      })
+    ).rejects.toBeInstanceOf(PaymentAbortedError)
+  })
+
+  it('rejects malformed payment requirements', async () => {
+    const res = new Response('not json', {
+      status: 402,
+      headers: { 'PAYMENT-REQUIRED': 'bm90IGpzb24' }
+    })
+    const err = await payingKit.tryGetPayUrl(res).catch((err) => err)
+    expect(err).toBeInstanceOf(InvalidRequirementsError)
+    expect(err.code).toBe('INVALID_REQUIREMENTS')
+    expect(new TransportError('x')).toBeInstanceOf(Error)
+  })
+})
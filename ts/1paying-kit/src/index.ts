@@ -1,27 +1,147 @@
 import { ed25519 } from '@noble/curves/ed25519'
 import { randomBytes } from '@noble/hashes/utils'
 import { encode, rfc8949EncodeOptions } from 'cborg'
-import { gzipCompress } from './gzip.js'
+import type { BackoffOptions } from './backoff.js'
+import { gzipCompressSync } from './gzip.js'
+import type { BudgetManager } from './budget.js'
+import {
+  InvalidRequirementsError,
+  InvalidSettleResponseError,
+  InvalidSignatureError,
+  PayingKitError,
+  PaymentAbortedError,
+  PaymentNotFoundError,
+  PaymentRejectedError,
+  PaymentTimeoutError,
+  TransportError
+} from './errors.js'
+import {
+  decodePaymentRequiredHeader,
+  decodePaymentResponseHeader
+} from './header.js'
+import type { KeyStore } from './keystore.js'
+import {
+  ApiMessageStore,
+  measureMessage,
+  type FieldSize,
+  type MessageStore
+} from './message.js'
+import { PAY_URL_ENCODING, type ParsedPayUrl } from './payurl.js'
+import {
+  applyPaymentPolicy,
+  PaymentPolicyError,
+  type PaymentPolicy
+} from './policy.js'
+import {
+  MemoryPendingStore,
+  pendingExpiresAt,
+  type PendingPayment,
+  type PendingStore
+} from './pending.js'
 import type {
   Message,
   PaymentRequired,
+  PaymentRequirements,
   PaymentRequirementsResponse,
+  PaymentRequirementsV1,
   TransactionState
 } from './types.js'
+import {
+  createTransport,
+  type FetchLike,
+  type TransactionTransport,
+  type TransportKind,
+  type WatchOptions
+} from './transport.js'
 import { toMessageCompact, type SettleResponse } from './types.js'
+import { formatIssues, validatePaymentRequiredAny } from './validate.js'
 import { base64ToString, bytesToBase64Url } from './utils.js'
 
+export * from './asset.js'
+export * from './budget.js'
+export * from './convert.js'
+export * from './errors.js'
 export * from './gzip.js'
+export * from './header.js'
+export * from './keystore.js'
+export * from './message.js'
+export * from './payload.js'
+export * from './payurl.js'
+export * from './pending.js'
+export * from './policy.js'
+export * from './transport.js'
 export * from './types.js'
 export * from './utils.js'
+export * from './validate.js'
 
-const PAYING_ENDPOINT = 'https://1pay.ing/sign'
-const API_ENDPOINT = 'https://api.1pay.ing/tx'
+/** The default 1pay.ing sign page base URL. */
+export const PAYING_ENDPOINT = 'https://1pay.ing/sign'
+/** The default 1pay.ing transaction API base URL. */
+export const API_ENDPOINT = 'https://api.1pay.ing/tx'
+
+/**
+ * Configuration for a PayingKit instance.
+ */
+export interface PayingKitConfig {
+  /**
+   * Base URL of the sign page that payment URLs point to.
+   * @default 'https://1pay.ing/sign'
+   */
+  payingEndpoint?: string
+  /**
+   * Base URL of the transaction API used for polling and settle results.
+   * @default 'https://api.1pay.ing/tx'
+   */
+  apiEndpoint?: string
+  /**
+   * A custom fetch implementation, e.g. to add auth headers, route through a proxy
+   * or talk to a local stand-in server in tests.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchLike
+  /**
+   * A 32-byte ed25519 secret key to use instead of generating a new one.
+   */
+  secretKey?: Uint8Array
+  /**
+   * A store that records payments handed to the sign page until they are settled,
+   * so that they can be resumed after a reload or restart.
+   * @default MemoryPendingStore
+   */
+  pendingStore?: PendingStore
+  /**
+   * How to receive transaction state updates while waiting for a payment:
+   * one of the built-in transports or a custom one.
+   * @default 'sse' (falls back to polling if the server does not stream events)
+   */
+  transport?: TransportKind | TransactionTransport
+  /**
+   * A policy that controls which payment options may be signed.
+   * Only the options it accepts are handed to the sign page, ranked by its preferences.
+   */
+  policy?: PaymentPolicy
+  /**
+   * A budget manager that enforces spending limits and asks for confirmation
+   * before a pay URL is created. Successful settle results are recorded in its ledger.
+   */
+  budget?: BudgetManager
+  /**
+   * The maximum length of pay URLs, e.g. to fit into a QR code. Longer messages are
+   * uploaded to the `messageStore` and the pay URL only carries a `#ref=` reference.
+   * @default unlimited
+   */
+  maxUrlLength?: number
+  /**
+   * Where messages of pay URLs exceeding `maxUrlLength` are uploaded.
+   * @default ApiMessageStore (the transaction API)
+   */
+  messageStore?: MessageStore
+}
 
 /**
  * Options for the PayingKit.
  */
-export interface PayingKitOptions {
+export interface PayingKitOptions extends BackoffOptions {
   /**
    * Timeout in milliseconds for waiting for the payment payload.
    * @default 180000 (3 minutes)
@@ -36,6 +156,12 @@ export interface PayingKitOptions {
    * An AbortSignal to cancel the operation.
    */
   signal?: AbortSignal
+  /**
+   * The number of consecutive failed status requests (network errors, 429 or 5xx responses)
+   * after which waiting gives up.
+   * @default 3
+   */
+  maxRetries?: number
   /**
    * A callback function that is called with the transaction state during polling.
    * @param state The current state of the transaction, including the attempt number.
@@ -43,6 +169,34 @@ export interface PayingKitOptions {
   onprogress?: (state: TransactionState & { attempt: number }) => void
 }
 
+/**
+ * Options for `PayingKit.fetch`.
+ */
+export interface PayingFetchOptions extends PayingKitOptions {
+  /**
+   * Opens the payment URL for the user to sign the payment.
+   * @default window.open(payUrl, '1paying-checkout') in browsers, required elsewhere
+   */
+  openPayUrl?: (payUrl: string, txid: string) => void | Promise<void>
+  /**
+   * Whether to submit the settle result to 1pay.ing after the paid request.
+   * @default true
+   */
+  submitSettleResult?: boolean
+}
+
+/**
+ * The Response returned by `PayingKit.fetch`.
+ */
+export type PayingResponse = Response & {
+  /** The transaction ID if a payment was made, otherwise null. */
+  txid: string | null
+  /** The settle info from the `PAYMENT-RESPONSE` header, if any. */
+  settleResponse: SettleResponse | null
+  /** The error if the `PAYMENT-RESPONSE` header of a paid response is malformed, otherwise null. */
+  settleError: InvalidSettleResponseError | null
+}
+
 /**
  * The PayingKit class provides methods to interact with the 1pay.ing service.
  */
@@ -50,14 +204,143 @@ export class PayingKit {
   #nonce = 0
   #sk: Uint8Array
   #pk: Uint8Array
+  #payingEndpoint: string
+  #apiEndpoint: string
+  #fetch: FetchLike
+  #pending: PendingStore
+  #transport: TransactionTransport
+  #policy: PaymentPolicy | null
+  #budget: BudgetManager | null
+  #maxUrlLength: number
+  #messageStore: MessageStore
 
   /**
    * Creates a new instance of the PayingKit.
-   * A new key pair is generated for each instance.
+   * A new key pair is generated for each instance unless `config.secretKey` is provided.
+   * @param config Optional endpoints, fetch implementation and secret key.
    */
-  constructor() {
-    this.#sk = randomBytes(32)
+  constructor(config: PayingKitConfig = {}) {
+    if (config.secretKey && config.secretKey.length !== 32) {
+      throw new PayingKitError(
+        'INVALID_KEY',
+        `Invalid ed25519 secret key length: ${config.secretKey.length}`
+      )
+    }
+    this.#sk = config.secretKey ? config.secretKey.slice() : randomBytes(32)
+    if (config.secretKey) {
+      // A restored identity may have signed messages before, so start the nonce
+      // from the clock to avoid reusing a nonce (and thus a txid) across sessions.
+      this.#nonce = Date.now()
+    }
     this.#pk = ed25519.getPublicKey(this.#sk)
+    this.#payingEndpoint = trimTrailingSlash(
+      config.payingEndpoint ?? PAYING_ENDPOINT
+    )
+    this.#apiEndpoint = trimTrailingSlash(config.apiEndpoint ?? API_ENDPOINT)
+    // Resolve the global fetch lazily so that it can be patched after construction.
+    this.#fetch =
+      config.fetch ?? ((input, init) => globalThis.fetch(input, init))
+    this.#pending = config.pendingStore ?? new MemoryPendingStore()
+    this.#policy = config.policy ?? null
+    this.#budget = config.budget ?? null
+    this.#maxUrlLength = config.maxUrlLength ?? Infinity
+    this.#messageStore =
+      config.messageStore ?? new ApiMessageStore(this.#apiEndpoint, this.#fetch)
+    const transport = config.transport ?? 'sse'
+    this.#transport =
+      typeof transport === 'string'
+        ? createTransport(transport, this.#apiEndpoint, this.#fetch)
+        : transport
+  }
+
+  /**
+   * Creates a PayingKit instance from an existing ed25519 secret key.
+   * @param secretKey The 32-byte secret key, e.g. from `exportSecretKey()`.
+   * @param config Optional endpoints and fetch implementation.
+   * @returns The PayingKit instance.
+   */
+  static fromSecretKey(
+    secretKey: Uint8Array,
+    config: Omit<PayingKitConfig, 'secretKey'> = {}
+  ): PayingKit {
+    return new PayingKit({ ...config, secretKey })
+  }
+
+  /**
+   * Creates a PayingKit instance with the secret key loaded from a KeyStore.
+   * If the store is empty, a new key is generated and saved to it.
+   * @param store The KeyStore to load the secret key from.
+   * @param config Optional endpoints and fetch implementation.
+   * @returns A promise that resolves with the PayingKit instance.
+   */
+  static async fromKeyStore(
+    store: KeyStore,
+    config: Omit<PayingKitConfig, 'secretKey'> = {}
+  ): Promise<PayingKit> {
+    const secretKey = await store.load()
+    if (secretKey) {
+      return PayingKit.fromSecretKey(secretKey, config)
+    }
+
+    const kit = new PayingKit(config)
+    await store.save(kit.exportSecretKey())
+    return kit
+  }
+
+  /**
+   * Verifies that the `txid` of a parsed pay URL is a signature of its message
+   * made with the public key embedded in the message.
+   * @param parsed The pay URL decoded by `parsePayUrl`.
+   * @returns The verified message.
+   * @throws {InvalidSignatureError} If the message, its public key or the `txid` was tampered with.
+   */
+  static verifyMessage(
+    parsed: Pick<ParsedPayUrl, 'txid' | 'signature' | 'bytes' | 'message'>
+  ): ParsedPayUrl['message'] {
+    let valid = false
+    try {
+      valid = ed25519.verify(
+        parsed.signature,
+        parsed.bytes,
+        parsed.message.pubkey
+      )
+    } catch {
+      // Malformed signatures or public keys are treated as invalid.
+    }
+    if (!valid) {
+      throw new InvalidSignatureError(parsed.txid)
+    }
+    return parsed.message
+  }
+
+  /**
+   * The 32-byte ed25519 public key that identifies this client.
+   */
+  get publicKey(): Uint8Array {
+    return this.#pk.slice()
+  }
+
+  /**
+   * Exports the ed25519 secret key of this instance.
+   * Keep it private: anyone holding it can sign payment requests as this client.
+   * @returns A copy of the 32-byte secret key.
+   */
+  exportSecretKey(): Uint8Array {
+    return this.#sk.slice()
+  }
+
+  /**
+   * The base URL of the sign page used by this instance.
+   */
+  get payingEndpoint(): string {
+    return this.#payingEndpoint
+  }
+
+  /**
+   * The base URL of the transaction API used by this instance.
+   */
+  get apiEndpoint(): string {
+    return this.#apiEndpoint
   }
 
   /**
@@ -65,6 +348,8 @@ export class PayingKit {
    * It checks if the response status is 402 (Payment Required) and if the 'PAYMENT-REQUIRED' header is present.
    * @param res The fetch Response object.
    * @returns A object containing the payment URL and transaction ID, or an empty object if payment is not required.
+   * @throws {InvalidRequirementsError} If the payment requirements are malformed.
+   * @throws {PaymentPolicyError} If the configured policy rejects every payment option, with the reason for each.
    */
   async tryGetPayUrl(res: Response): Promise<{
     payUrl: string | null
@@ -74,101 +359,367 @@ export class PayingKit {
       return { payUrl: null, txid: null }
     }
 
-    const val = res.headers.get('PAYMENT-REQUIRED')
-    const requirements = val
-      ? JSON.parse(base64ToString(val))
-      : await res.json()
-    return this.getPayUrl(requirements)
+    const requirements = await readPaymentRequired(res)
+    return this.getPayUrl(requirements, { resource: res.url || undefined })
+  }
+
+  /**
+   * A drop-in replacement for `fetch` that handles the whole x402 payment flow.
+   * If the server responds with 402 Payment Required, it creates a payment URL, opens it,
+   * waits for the payment payload, replays the original request with the payload in the
+   * `X-PAYMENT` (x402 v1) or `PAYMENT-SIGNATURE` (x402 v2) header and submits the settle result.
+   * @param input The resource to fetch.
+   * @param init The request options, replayed on the paid retry.
+   * @param options Options for opening the payment URL and waiting for the payment.
+   * @returns A promise that resolves with the final Response and the parsed settle info.
+   */
+  async fetch(
+    input: RequestInfo | URL,
+    init?: RequestInit,
+    options: PayingFetchOptions = {}
+  ): Promise<PayingResponse> {
+    const request = new Request(input, init)
+    // Keep the original request unused so that its body can be replayed.
+    const res = await this.#fetch(request.clone())
+    if (res.status !== 402) {
+      return Object.assign(res, {
+        txid: null,
+        settleResponse: null,
+        settleError: null
+      })
+    }
+
+    const requirements = await readPaymentRequired(res)
+    const { payUrl, txid } = await this.getPayUrl(requirements, {
+      resource: request.url
+    })
+    const openPayUrl = options.openPayUrl ?? defaultOpenPayUrl
+    await openPayUrl(payUrl, txid)
+
+    const payload = await this.waitForPaymentPayload(txid, options)
+    const headers = new Headers(request.headers)
+    headers.set(
+      requirements.x402Version === 1 ? 'X-PAYMENT' : 'PAYMENT-SIGNATURE',
+      payload
+    )
+    const paidRes = await this.#fetch(new Request(request, { headers }))
+    let settleResponse: SettleResponse | null = null
+    let settleError: InvalidSettleResponseError | null = null
+    try {
+      settleResponse = this.getSettleResponse(paidRes.headers)
+    } catch (err) {
+      if (!(err instanceof InvalidSettleResponseError)) {
+        throw err
+      }
+      // The payment has been made, so the paid response must not be lost.
+      settleError = err
+    }
+    if (settleResponse && options.submitSettleResult !== false) {
+      await this.submitSettleResult(txid, paidRes.headers).catch(() => {
+        // Ignore settle submission errors, the payment itself has succeeded.
+      })
+    } else {
+      // Without a settle response the merchant may still have charged the payment,
+      // so it is recorded at the required amount.
+      await this.#recordSettlement(txid, settleResponse)
+      await this.#pending.delete(txid)
+    }
+
+    return Object.assign(paidRes, { txid, settleResponse, settleError })
   }
 
   /**
    * Generates a payment URL and transaction ID from payment requirements.
+   * The payment is recorded in the pending store until it is settled or expires.
    * @param requirements The payment requirements response from the server.
+   * @param options Optional URL of the protected resource to record with the pending payment.
    * @returns An object containing the payment URL and the transaction ID.
+   * @throws {InvalidRequirementsError} If the requirements are malformed.
+   * @throws {PaymentPolicyError} If the configured policy rejects every payment option.
+   * @throws {BudgetExceededError} If no payment option fits the configured budget.
+   * @throws {PaymentNotConfirmedError} If the budget's confirmation hook declines the payment.
+   * @throws {TransportError} If the pay URL exceeds `maxUrlLength` and the message can not be uploaded.
    */
   async getPayUrl(
-    requirements: PaymentRequirementsResponse | PaymentRequired
+    requirements: PaymentRequirementsResponse | PaymentRequired,
+    options: { resource?: string | undefined } = {}
   ): Promise<{
     payUrl: string
     txid: string
   }> {
-    const message: Message<PaymentRequirementsResponse | PaymentRequired> = {
-      pubkey: this.#pk,
-      nonce: this.#nextNonce(),
-      payload: requirements
+    const checked = validatePaymentRequiredAny(requirements)
+    if (!checked.ok) {
+      throw new InvalidRequirementsError(
+        `Invalid payment requirements: ${formatIssues(checked.issues)}`,
+        checked.issues
+      )
     }
 
-    const cborBytes = encode(
-      toMessageCompact(message as Message<PaymentRequired>),
-      rfc8949EncodeOptions
-    )
+    if (this.#policy) {
+      const filtered = applyPaymentPolicy(requirements, this.#policy)
+      if (filtered.requirements.accepts.length === 0) {
+        throw new PaymentPolicyError(filtered.rejected)
+      }
+      requirements = filtered.requirements
+    }
+    if (this.#budget) {
+      requirements = await this.#budget.check(requirements)
+    }
+
+    const nonce = this.#nextNonce()
+    const cborBytes = this.#encodeMessage(requirements, nonce)
     const signature = this.#sign(cborBytes)
     const txid = bytesToBase64Url(signature)
-    const msg = bytesToBase64Url(await gzipCompress(cborBytes))
+    // Reserve before the first await, so concurrent payments see each other.
+    this.#budget?.reserve(txid, requirements)
+    try {
+      return await this.#issuePayUrl(
+        txid,
+        cborBytes,
+        requirements,
+        nonce,
+        options
+      )
+    } catch (err) {
+      this.#budget?.release(txid)
+      throw err
+    }
+  }
+
+  async #issuePayUrl(
+    txid: string,
+    cborBytes: Uint8Array,
+    requirements: PaymentRequirementsResponse | PaymentRequired,
+    nonce: number,
+    options: { resource?: string | undefined }
+  ): Promise<{ payUrl: string; txid: string }> {
+    const msg = this.#encodePayMessage(cborBytes)
+    let payUrl = `${this.#payingEndpoint}?action=pay#msg=${msg}&txid=${txid}&enc=${PAY_URL_ENCODING}`
+    if (payUrl.length > this.#maxUrlLength) {
+      // Let the sign page fetch the message instead of carrying it in the URL.
+      const ref = await this.#messageStore.put({
+        txid,
+        msg,
+        enc: PAY_URL_ENCODING
+      })
+      payUrl = `${this.#payingEndpoint}?action=pay#ref=${encodeURIComponent(ref)}&txid=${txid}`
+    }
+
+    const pending: PendingPayment = {
+      txid,
+      requirements,
+      nonce,
+      createdAt: Date.now()
+    }
+    const resource =
+      options.resource ??
+      ('resource' in requirements
+        ? requirements.resource?.url
+        : requirements.accepts[0]?.resource)
+    if (resource) {
+      pending.resource = resource
+    }
+    await this.#pending.put(pending)
 
     return {
-      payUrl: `${PAYING_ENDPOINT}?action=pay#msg=${msg}&txid=${txid}`,
+      payUrl,
       txid
     }
   }
 
+  /**
+   * Measures the pay URL `getPayUrl` would create for the payment requirements, before
+   * `maxUrlLength` applies. The requirements are measured as given, without the policy
+   * and the budget filtering their options.
+   * @param requirements The payment requirements.
+   * @returns The length of the pay URL and the encoded size of every field of the message, largest first.
+   */
+  measurePayUrl(requirements: PaymentRequirementsResponse | PaymentRequired): {
+    length: number
+    sizes: FieldSize[]
+  } {
+    const cborBytes = this.#encodeMessage(requirements, this.#nonce + 1)
+    const txid = bytesToBase64Url(this.#sign(cborBytes))
+    const msg = this.#encodePayMessage(cborBytes)
+    const payUrl = `${this.#payingEndpoint}?action=pay#msg=${msg}&txid=${txid}&enc=${PAY_URL_ENCODING}`
+    return { length: payUrl.length, sizes: measureMessage(requirements) }
+  }
+
   /**
    * Waits for a payment to be completed and returns the payment payload.
    * This method polls the transaction status endpoint until the transaction is completed or fails.
    * @param txid The transaction ID to wait for.
    * @param options Options for the operation, such as timeout and progress callback.
    * @returns A promise that resolves with the base64-encoded payment payload.
+   * @throws {PaymentTimeoutError} If the payment did not complete within `timeoutMs`.
+   * @throws {PaymentAbortedError} If `signal` was aborted.
+   * @throws {PaymentRejectedError} If the 1pay.ing service reports that the payment failed.
+   * @throws {TransportError} If the transaction status could not be fetched.
    */
   async waitForPaymentPayload(
     txid: string,
     options: PayingKitOptions = {}
   ): Promise<string> {
-    let attempt = 0
-    let requestFailed = 0
-    const timeoutMs = options.timeoutMs ?? 1000 * 60 * 3 // default 3 minutes
-    const signal: AbortSignal | null | undefined = options.signal
-    const startTime = Date.now()
-    const url = `${API_ENDPOINT}/${txid}`
+    let result: string
+    try {
+      result = await this.#waitForResult(txid, options)
+    } catch (err) {
+      if (
+        err instanceof PaymentRejectedError ||
+        err instanceof PaymentNotFoundError
+      ) {
+        // The payment failed, it can not be resumed.
+        await this.#pending.delete(txid)
+        this.#budget?.release(txid)
+      } else {
+        // Timeouts, network errors and aborts can be resumed until the payment expires.
+        const pending = await this.#pending.get(txid)
+        if (pending && pendingExpiresAt(pending) <= Date.now()) {
+          await this.#pending.delete(txid)
+          this.#budget?.release(txid)
+        }
+      }
+      throw err
+    }
 
-    // Initial delay to allow payment processing to start
-    await new Promise((resolve) =>
-      setTimeout(resolve, options.initialDelayMs ?? 5000)
-    )
+    const pending = await this.#pending.get(txid)
+    if (pending) {
+      await this.#pending.put({ ...pending, result })
+    }
+    return result
+  }
+
+  /**
+   * Lists the payments that were handed to the sign page but not settled yet.
+   * Expired payments are removed first.
+   * @returns A promise that resolves with the pending payments, oldest first.
+   */
+  async listPending(): Promise<PendingPayment[]> {
+    await this.prunePending()
+    const payments = await this.#pending.list()
+    return payments.sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Resumes waiting for a pending payment, e.g. after a page reload.
+   * If the payment payload has already been received, it is returned immediately.
+   * @param txid The transaction ID of the pending payment.
+   * @param options Options for the operation. By default polling starts immediately
+   * and times out when the payment expires.
+   * @returns A promise that resolves with the base64-encoded payment payload.
+   */
+  async resumePending(
+    txid: string,
+    options: PayingKitOptions = {}
+  ): Promise<string> {
+    const pending = await this.#pending.get(txid)
+    if (!pending) {
+      throw new PaymentNotFoundError(txid)
+    }
+    if (pending.result) {
+      return pending.result
+    }
+
+    const remainingMs = pendingExpiresAt(pending) - Date.now()
+    if (remainingMs <= 0) {
+      await this.#pending.delete(txid)
+      this.#budget?.release(txid)
+      throw new PaymentTimeoutError(`Pending payment ${txid} has expired`)
+    }
+
+    return this.waitForPaymentPayload(txid, {
+      initialDelayMs: 0,
+      timeoutMs: remainingMs,
+      ...options
+    })
+  }
+
+  /**
+   * Removes a pending payment, e.g. when the user cancels it.
+   * @param txid The transaction ID of the pending payment.
+   */
+  async removePending(txid: string): Promise<void> {
+    await this.#pending.delete(txid)
+    this.#budget?.release(txid)
+  }
+
+  /**
+   * Removes pending payments whose `maxTimeoutSeconds` have elapsed.
+   * Payments with a received payload are kept until they are settled.
+   * @param now The current time in milliseconds since the Unix epoch.
+   * @returns A promise that resolves with the number of removed payments.
+   */
+  async prunePending(now = Date.now()): Promise<number> {
+    let removed = 0
+    for (const payment of await this.#pending.list()) {
+      if (!payment.result && pendingExpiresAt(payment) <= now) {
+        await this.#pending.delete(payment.txid)
+        this.#budget?.release(payment.txid)
+        removed += 1
+      }
+    }
+    return removed
+  }
+
+  /**
+   * Watches a transaction and yields its state whenever it is known or changes,
+   * using the configured transport. The iteration ends after a `completed` or `error` state.
+   * @param txid The transaction ID to watch.
+   * @param options Options for watching, such as the initial delay and an AbortSignal.
+   * @returns An async iterable of transaction states.
+   */
+  watchTransaction(
+    txid: string,
+    options: WatchOptions = {}
+  ): AsyncIterable<TransactionState> {
+    return this.#transport.watch(txid, options)
+  }
+
+  async #waitForResult(
+    txid: string,
+    options: PayingKitOptions
+  ): Promise<string> {
+    const timeoutMs = options.timeoutMs ?? 1000 * 60 * 3 // default 3 minutes
+    const controller = new AbortController()
+    const timeoutError = new PaymentTimeoutError()
+    const timer = setTimeout(() => controller.abort(timeoutError), timeoutMs)
+    const onAbort = () =>
+      controller.abort(new PaymentAbortedError(options.signal?.reason))
+    if (options.signal?.aborted) {
+      onAbort()
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true })
 
-    while (true) {
-      attempt += 1
-      const response = await fetch(url, { signal })
-      if (response.status === 200) {
-        requestFailed = 0
-        const data: TransactionState = await response.json()
+    let attempt = 0
+    try {
+      const states = this.watchTransaction(txid, {
+        ...options,
+        signal: controller.signal
+      })
+      for await (const data of states) {
+        attempt += 1
         if (data.status === 'completed' && data.result) {
           return data.result
         } else if (data.status === 'error') {
-          throw (
-            data.error ?? new Error('Unknown error during payment processing')
+          throw new PaymentRejectedError(
+            data.error ?? {
+              code: 0,
+              message: 'Unknown error during payment processing'
+            }
           )
-        } else if (options.onprogress) {
-          options.onprogress({ ...data, attempt })
-        }
-      } else {
-        requestFailed += 1
-        if (requestFailed >= 3) {
-          const text = await response.text()
-          throw new Error(
-            `Failed to fetch transaction status after 3 attempts: ${text}`
-          )
-        }
-
-        if (options.onprogress) {
-          options.onprogress({ status: 'pending', attempt })
         }
+        options.onprogress?.({ ...data, attempt })
       }
-
-      if (Date.now() - startTime > timeoutMs) {
-        throw new Error('Timeout waiting for payment payload')
+      throw new TransportError('Transaction watch ended without a result')
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Transports reject with the abort reason, but fetch implementations may not.
+        throw controller.signal.reason
       }
-
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+      throw err
+    } finally {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
     }
   }
 
@@ -176,6 +727,7 @@ export class PayingKit {
    * Extracts a settle response from various input types.
    * @param input The settle response, which can be a SettleResponse object, a base64-encoded string, or Headers.
    * @returns The parsed SettleResponse object, or null if not available.
+   * @throws {InvalidSettleResponseError} If the encoded settle response can not be parsed or is malformed.
    */
   getSettleResponse(
     input: SettleResponse | string | Headers
@@ -184,7 +736,10 @@ export class PayingKit {
       input instanceof Headers
         ? input.get('PAYMENT-RESPONSE') || input.get('X-PAYMENT-RESPONSE')
         : input
-    return typeof val === 'string' ? JSON.parse(base64ToString(val)) : val
+    if (typeof val !== 'string') {
+      return val
+    }
+    return decodePaymentResponseHeader(val)
   }
 
   /**
@@ -198,7 +753,13 @@ export class PayingKit {
   ): Promise<void> {
     const info = this.getSettleResponse(input)
     if (info) {
-      await fetch(`${API_ENDPOINT}/${txid}/status`, {
+      await this.#recordSettlement(txid, info)
+    } else {
+      this.#budget?.release(txid)
+    }
+    await this.#pending.delete(txid)
+    if (info) {
+      const res = await this.#fetch(`${this.#apiEndpoint}/${txid}/status`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json'
@@ -208,9 +769,55 @@ export class PayingKit {
           status: info.success ? 'finalized' : 'failed'
         })
       })
+      if (!res.ok) {
+        throw new TransportError(
+          `Failed to submit settle result, status ${res.status}: ${await res.text()}`,
+          res.status
+        )
+      }
     }
   }
 
+  async #recordSettlement(
+    txid: string,
+    info: SettleResponse | null
+  ): Promise<void> {
+    if (!this.#budget) {
+      return
+    }
+    const pending = await this.#pending.get(txid)
+    const paid = pending && findPaidRequirements(pending, info?.network)
+    if (paid) {
+      this.#budget.record(
+        txid,
+        paid,
+        info ?? { success: true, transaction: '', network: paid.network }
+      )
+    } else {
+      this.#budget.release(txid)
+    }
+  }
+
+  #encodeMessage(
+    requirements: PaymentRequirementsResponse | PaymentRequired,
+    nonce: number
+  ): Uint8Array {
+    const message: Message<PaymentRequirementsResponse | PaymentRequired> = {
+      pubkey: this.#pk,
+      nonce,
+      payload: requirements
+    }
+    return encode(
+      toMessageCompact(message as Message<PaymentRequired>),
+      rfc8949EncodeOptions
+    )
+  }
+
+  #encodePayMessage(cborBytes: Uint8Array): string {
+    // The bundled encoder makes the same pay URL in every runtime.
+    return bytesToBase64Url(gzipCompressSync(cborBytes))
+  }
+
   #nextNonce(): number {
     this.#nonce += 1
     return this.#nonce
@@ -225,6 +832,62 @@ export class PayingKit {
   }
 }
 
+async function readPaymentRequired(
+  res: Response
+): Promise<PaymentRequirementsResponse | PaymentRequired> {
+  const val = res.headers.get('PAYMENT-REQUIRED')
+  if (val) {
+    return decodePaymentRequiredHeader(val)
+  }
+
+  try {
+    return await res.json()
+  } catch (err) {
+    throw new InvalidRequirementsError(
+      'Failed to parse the payment requirements',
+      [],
+      { cause: err }
+    )
+  }
+}
+
+function findPaidRequirements(
+  pending: PendingPayment,
+  network: string | undefined
+): PaymentRequirements | PaymentRequirementsV1 | null {
+  if (pending.result) {
+    // An x402 v2 payment payload names the accepted requirements,
+    // an x402 v1 payload only their network.
+    try {
+      const payload = JSON.parse(base64ToString(pending.result))
+      if (payload?.accepted) {
+        return payload.accepted
+      }
+      network ??= payload?.network
+    } catch {
+      // Fall back to matching by network.
+    }
+  }
+
+  const accepts: (PaymentRequirements | PaymentRequirementsV1)[] =
+    pending.requirements.accepts
+  return accepts.find((req) => req.network === network) ?? null
+}
+
+function defaultOpenPayUrl(payUrl: string): void {
+  if (typeof globalThis.open !== 'function') {
+    throw new PayingKitError(
+      'INVALID_CONFIG',
+      'openPayUrl is required outside of browsers'
+    )
+  }
+  globalThis.open(payUrl, '1paying-checkout')
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
 /**
  * A default instance of the PayingKit.
  */
@@ -0,0 +1,73 @@
+import { mkdtemp, rm, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { PayingKit, type PaymentRequired } from './index.js'
+import { FileKeyStore, MemoryKeyStore } from './keystore.js'
+
+const requirements: PaymentRequired = {
+  x402Version: 2,
+  resource: { url: 'https://api.example.com/premium-data' },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 60
+    }
+  ]
+}
+
+describe('PayingKit keys', () => {
+  it('restores the same identity from an exported secret key', () => {
+    const kit = new PayingKit()
+    const restored = PayingKit.fromSecretKey(kit.exportSecretKey())
+    expect(restored.publicKey).toEqual(kit.publicKey)
+    expect(() => PayingKit.fromSecretKey(new Uint8Array(16))).toThrow()
+  })
+
+  it('does not reuse nonces after a key reload', async () => {
+    const store = new MemoryKeyStore()
+    const kit = await PayingKit.fromKeyStore(store)
+    const first = await kit.getPayUrl(requirements)
+
+    // The same key signs the same requirements, so only the nonce tells them apart.
+    const reloaded = await PayingKit.fromKeyStore(store)
+    const second = await reloaded.getPayUrl(requirements)
+    expect(reloaded.publicKey).toEqual(kit.publicKey)
+    expect(second.txid).not.toBe(first.txid)
+  })
+
+  it('generates and persists a key on first use of a KeyStore', async () => {
+    const store = new MemoryKeyStore()
+    const kit1 = await PayingKit.fromKeyStore(store)
+    const kit2 = await PayingKit.fromKeyStore(store)
+    expect(kit2.publicKey).toEqual(kit1.publicKey)
+
+    await store.clear()
+    expect(await store.load()).toBeNull()
+  })
+
+  it('stores keys in a file readable by the owner only', async () => {
+    const dir = await mkdtemp(join(tmpdir(), '1paying-'))
+    try {
+      const path = join(dir, 'nested', 'key')
+      const store = new FileKeyStore(path)
+      expect(await store.load()).toBeNull()
+
+      const kit = await PayingKit.fromKeyStore(store)
+      expect(await store.load()).toEqual(kit.exportSecretKey())
+      expect((await stat(path)).mode & 0o777).toBe(0o600)
+
+      const restored = await PayingKit.fromKeyStore(new FileKeyStore(path))
+      expect(restored.publicKey).toEqual(kit.publicKey)
+
+      await store.clear()
+      expect(await store.load()).toBeNull()
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
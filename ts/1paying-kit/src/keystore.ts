@@ -0,0 +1,183 @@
+import { base64ToBytes, bytesToBase64Url } from './utils.js'
+
+/**
+ * A pluggable storage for the ed25519 secret key of a PayingKit instance,
+ * so that one client identity survives page reloads and process restarts.
+ */
+export interface KeyStore {
+  /**
+   * Loads the stored secret key.
+   * @returns The 32-byte secret key, or null if no key has been stored yet.
+   */
+  load(): Promise<Uint8Array | null>
+  /**
+   * Stores the secret key, replacing any previously stored key.
+   * @param secretKey The 32-byte secret key.
+   */
+  save(secretKey: Uint8Array): Promise<void>
+  /**
+   * Removes the stored secret key.
+   */
+  clear(): Promise<void>
+}
+
+/**
+ * A KeyStore that keeps the secret key in memory only.
+ */
+export class MemoryKeyStore implements KeyStore {
+  #sk: Uint8Array | null = null
+
+  async load(): Promise<Uint8Array | null> {
+    return this.#sk ? this.#sk.slice() : null
+  }
+
+  async save(secretKey: Uint8Array): Promise<void> {
+    this.#sk = secretKey.slice()
+  }
+
+  async clear(): Promise<void> {
+    this.#sk = null
+  }
+}
+
+/**
+ * A KeyStore backed by the Web Storage API (`localStorage` by default).
+ * The secret key is stored as a base64url string.
+ */
+export class LocalStorageKeyStore implements KeyStore {
+  #key: string
+  #storage: Storage
+
+  /**
+   * @param key The storage item key.
+   * @param storage The Storage to use.
+   */
+  constructor(key = '1paying:sk', storage: Storage = globalThis.localStorage) {
+    this.#key = key
+    this.#storage = storage
+  }
+
+  async load(): Promise<Uint8Array | null> {
+    const val = this.#storage.getItem(this.#key)
+    return val ? base64ToBytes(val) : null
+  }
+
+  async save(secretKey: Uint8Array): Promise<void> {
+    this.#storage.setItem(this.#key, bytesToBase64Url(secretKey))
+  }
+
+  async clear(): Promise<void> {
+    this.#storage.removeItem(this.#key)
+  }
+}
+
+/**
+ * A KeyStore backed by IndexedDB.
+ */
+export class IndexedDBKeyStore implements KeyStore {
+  #dbName: string
+  #storeName: string
+  #key: string
+
+  /**
+   * @param dbName The IndexedDB database name.
+   * @param storeName The object store name.
+   * @param key The record key within the object store.
+   */
+  constructor(dbName = '1paying', storeName = 'keys', key = 'sk') {
+    this.#dbName = dbName
+    this.#storeName = storeName
+    this.#key = key
+  }
+
+  async load(): Promise<Uint8Array | null> {
+    const val = await this.#request<unknown>('readonly', (store) =>
+      store.get(this.#key)
+    )
+    return val instanceof Uint8Array ? val : null
+  }
+
+  async save(secretKey: Uint8Array): Promise<void> {
+    await this.#request('readwrite', (store) =>
+      store.put(secretKey.slice(), this.#key)
+    )
+  }
+
+  async clear(): Promise<void> {
+    await this.#request('readwrite', (store) => store.delete(this.#key))
+  }
+
+  async #request<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.#open()
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(this.#storeName, mode)
+        const req = fn(tx.objectStore(this.#storeName))
+        tx.oncomplete = () => resolve(req.result as T)
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+      })
+    } finally {
+      db.close()
+    }
+  }
+
+  #open(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const req = globalThis.indexedDB.open(this.#dbName, 1)
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(this.#storeName)) {
+          req.result.createObjectStore(this.#storeName)
+        }
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+  }
+}
+
+/**
+ * A KeyStore backed by a file on the local file system (Node.js only).
+ * The secret key is stored as a base64url string, readable by the owner only.
+ */
+export class FileKeyStore implements KeyStore {
+  #path: string
+
+  /**
+   * @param path The path of the key file.
+   */
+  constructor(path: string) {
+    this.#path = path
+  }
+
+  async load(): Promise<Uint8Array | null> {
+    const fs = await import('node:fs/promises')
+    try {
+      const val = (await fs.readFile(this.#path, 'utf8')).trim()
+      return val ? base64ToBytes(val) : null
+    } catch (err) {
+      if ((err as { code?: string }).code === 'ENOENT') {
+        return null
+      }
+      throw err
+    }
+  }
+
+  async save(secretKey: Uint8Array): Promise<void> {
+    const fs = await import('node:fs/promises')
+    const { dirname } = await import('node:path')
+    await fs.mkdir(dirname(this.#path), { recursive: true })
+    await fs.writeFile(this.#path, bytesToBase64Url(secretKey), {
+      encoding: 'utf8',
+      mode: 0o600
+    })
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import('node:fs/promises')
+    await fs.rm(this.#path, { force: true })
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ApiMessageStore,
+  InvalidPayUrlError,
+  MemoryMessageStore,
+  PayingKit,
+  measureMessage,
+  parsePayUrl,
+  type FetchLike,
+  type PaymentRequired
+} from './index.js'
+
+const requirements: PaymentRequired = {
+  x402Version: 2,
+  resource: { url: 'https://api.example.com/premium-data' },
+  accepts: Array.from({ length: 8 }, (_, i) => ({
+    scheme: 'exact' as const,
+    network: `eip155:${8453 + i}`,
+    amount: String(10000 * (i + 1)),
+    asset: `0x${String(i).repeat(40)}`,
+    payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+    maxTimeoutSeconds: 60
+  })),
+  extensions: {
+    info: {},
+    schema: Object.fromEntries(
+      Array.from({ length: 50 }, (_, i) => [
+        `field${i}`,
+        { type: 'string', description: `Description of field ${i}` }
+      ])
+    )
+  }
+}
+
+describe('maxUrlLength', () => {
+  it('uploads long messages and emits a #ref= URL', async () => {
+    const messageStore = new MemoryMessageStore()
+    const kit = new PayingKit({ maxUrlLength: 300, messageStore })
+
+    const { payUrl, txid } = await kit.getPayUrl(requirements)
+    expect(payUrl).toBe(
+      `https://1pay.ing/sign?action=pay#ref=${txid}&txid=${txid}`
+    )
+    expect(payUrl.length).toBeLessThanOrEqual(300)
+
+    await expect(parsePayUrl(payUrl)).rejects.toThrow(InvalidPayUrlError)
+    const parsed = await parsePayUrl(payUrl, { messageStore })
+    expect(parsed.ref).toBe(txid)
+    expect(PayingKit.verifyMessage(parsed).payload).toEqual(requirements)
+  })
+
+  it('keeps short messages in the URL', async () => {
+    const messageStore = new MemoryMessageStore()
+    const kit = new PayingKit({ maxUrlLength: 10000, messageStore })
+    const { payUrl, txid } = await kit.getPayUrl(requirements)
+    expect(payUrl).toContain('#msg=')
+    expect(await messageStore.get(txid)).toBeNull()
+  })
+
+  it('stores messages in the transaction API by default', async () => {
+    const stored = new Map<string, string>()
+    const kit = new PayingKit({
+      maxUrlLength: 300,
+      apiEndpoint: 'http://localhost:8787/tx',
+      fetch: async (input, init) => {
+        stored.set(String(input), String(init?.body))
+        return new Response(null, { status: 204 })
+      }
+    })
+
+    const { payUrl, txid } = await kit.getPayUrl(requirements)
+    expect(payUrl).toBe(
+      `https://1pay.ing/sign?action=pay#ref=${txid}&txid=${txid}`
+    )
+    expect([...stored.keys()]).toEqual([`http://localhost:8787/tx/${txid}/msg`])
+  })
+
+  it('stores messages in a transaction API', async () => {
+    const stored = new Map<string, string>()
+    const fetch: FetchLike = async (input, init) => {
+      const url = String(input)
+      if (init?.method === 'PUT') {
+        stored.set(url, String(init.body))
+        return new Response(null, { status: 204 })
+      }
+      const body = stored.get(url)
+      return body
+        ? new Response(body, { status: 200 })
+        : new Response('not found', { status: 404 })
+    }
+    const messageStore = new ApiMessageStore('http://localhost:8787/tx', fetch)
+    const kit = new PayingKit({ maxUrlLength: 300, messageStore })
+
+    const { payUrl, txid } = await kit.getPayUrl(requirements)
+    expect([...stored.keys()]).toEqual([`http://localhost:8787/tx/${txid}/msg`])
+
+    const parsed = await parsePayUrl(payUrl, { messageStore })
+    expect(parsed.message.payload).toEqual(requirements)
+    expect(await messageStore.get('unknown')).toBeNull()
+  })
+})
+
+describe('measurePayUrl', () => {
+  it('measures the pay URL without issuing it', async () => {
+    const kit = new PayingKit()
+    const measured = kit.measurePayUrl(requirements)
+    expect(measured.sizes).toEqual(measureMessage(requirements))
+
+    const { payUrl } = await kit.getPayUrl(requirements)
+    expect(measured.length).toBe(payUrl.length)
+    expect(await kit.listPending()).toHaveLength(1)
+  })
+})
+
+describe('measureMessage', () => {
+  it('reports the largest fields first', () => {
+    const sizes = measureMessage(requirements)
+    expect(sizes[0]!.path).toBe('$.extensions.schema')
+    expect(sizes[0]!.bytes).toBeGreaterThan(1000)
+    expect(sizes.map((s) => s.path)).toContain('$.accepts[7].asset')
+  })
+})
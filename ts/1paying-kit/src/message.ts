@@ -0,0 +1,153 @@
+import { encode, rfc8949EncodeOptions } from 'cborg'
+import { TransportError } from './errors.js'
+import type { FetchLike } from './transport.js'
+import type { PaymentRequired, PaymentRequirementsResponse } from './types.js'
+
+/**
+ * A signed message that is too large for a pay URL, stored for the sign page to fetch.
+ */
+export interface StoredMessage {
+  /** The transaction ID, the signature of the message. */
+  txid: string
+  /** The encoded message, as it would appear in the `msg` fragment parameter. */
+  msg: string
+  /** The encoding of `msg`, as it would appear in the `enc` fragment parameter. */
+  enc: string
+}
+
+/**
+ * A pluggable storage for signed messages that are referenced by `#ref=` pay URLs.
+ */
+export interface MessageStore {
+  /**
+   * Stores a signed message.
+   * @param message The message to store.
+   * @returns The reference the sign page resolves the message with.
+   */
+  put(message: StoredMessage): Promise<string>
+  /**
+   * Resolves a reference to a stored message.
+   * @param ref The reference returned by `put`.
+   * @returns The stored message, or null if not found.
+   */
+  get(ref: string): Promise<StoredMessage | null>
+}
+
+/**
+ * Stores messages in a transaction API at `${apiEndpoint}/${txid}/msg`.
+ * The reference is the transaction ID. The endpoint is not part of the public
+ * 1pay.ing API, use it only with a transaction API that serves it.
+ */
+export class ApiMessageStore implements MessageStore {
+  #apiEndpoint: string
+  #fetch: FetchLike
+
+  /**
+   * @param apiEndpoint The base URL of the transaction API.
+   * @param fetch The fetch implementation.
+   */
+  constructor(
+    apiEndpoint: string,
+    fetch: FetchLike = (input, init) => globalThis.fetch(input, init)
+  ) {
+    this.#apiEndpoint = apiEndpoint
+    this.#fetch = fetch
+  }
+
+  async put(message: StoredMessage): Promise<string> {
+    const res = await this.#fetch(`${this.#apiEndpoint}/${message.txid}/msg`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ msg: message.msg, enc: message.enc })
+    })
+    if (!res.ok) {
+      throw new TransportError(
+        `Failed to upload the payment message, status ${res.status}: ${await res.text()}`,
+        res.status
+      )
+    }
+    return message.txid
+  }
+
+  async get(ref: string): Promise<StoredMessage | null> {
+    const res = await this.#fetch(`${this.#apiEndpoint}/${ref}/msg`)
+    if (res.status === 404) {
+      return null
+    }
+    if (!res.ok) {
+      throw new TransportError(
+        `Failed to fetch the payment message, status ${res.status}: ${await res.text()}`,
+        res.status
+      )
+    }
+    const { msg, enc } = await res.json()
+    return { txid: ref, msg, enc }
+  }
+}
+
+/**
+ * Keeps messages in memory, e.g. for tests or a sign page served by the same process.
+ */
+export class MemoryMessageStore implements MessageStore {
+  #messages = new Map<string, StoredMessage>()
+
+  async put(message: StoredMessage): Promise<string> {
+    this.#messages.set(message.txid, { ...message })
+    return message.txid
+  }
+
+  async get(ref: string): Promise<StoredMessage | null> {
+    const message = this.#messages.get(ref)
+    return message ? { ...message } : null
+  }
+}
+
+/**
+ * The CBOR encoded size of one field of the payment requirements.
+ */
+export interface FieldSize {
+  /** The path of the field, e.g. `$.accepts[0].extra`. */
+  path: string
+  /** The encoded size in bytes. */
+  bytes: number
+}
+
+/**
+ * Measures how much each field of the payment requirements contributes to the signed message,
+ * to find what makes a pay URL too long.
+ * @param requirements The payment requirements.
+ * @returns The encoded size of every field, largest first.
+ */
+export function measureMessage(
+  requirements: PaymentRequired | PaymentRequirementsResponse
+): FieldSize[] {
+  const sizes: FieldSize[] = []
+  const measure = (value: unknown, path: string) => {
+    if (value !== undefined) {
+      sizes.push({ path, bytes: encode(value, rfc8949EncodeOptions).length })
+    }
+  }
+
+  const { accepts, ...rest } = requirements
+  for (const [key, value] of Object.entries(rest)) {
+    if (isRecord(value)) {
+      for (const [k, v] of Object.entries(value)) {
+        measure(v, `$.${key}.${k}`)
+      }
+    } else {
+      measure(value, `$.${key}`)
+    }
+  }
+  accepts.forEach((req, i) => {
+    for (const [key, value] of Object.entries(req)) {
+      measure(value, `$.accepts[${i}].${key}`)
+    }
+  })
+  return sizes.sort((a, b) => b.bytes - a.bytes)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  InvalidPaymentPayloadError,
+  decodePaymentPayload,
+  isEvmExactPayment,
+  isIcpPayment,
+  isSolanaPayment,
+  networkNamespace,
+  stringToBase64,
+  type PaymentPayload
+} from './index.js'
+
+const evmPayload: PaymentPayload<unknown> = {
+  x402Version: 2,
+  accepted: {
+    scheme: 'exact',
+    network: 'eip155:84532',
+    amount: '10000',
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+    maxTimeoutSeconds: 60,
+    extra: { name: 'USDC', version: '2' }
+  },
+  payload: {
+    signature:
+      '0x2d6a7588d6acca505cbf0d9a4a227e0c52c6c34008c8e8986a1283259764173608a2ce6496642e377d6da8dbbf5836e9bd15092f9ecab05ded3d6293af148b571c',
+    authorization: {
+      from: '0x857b06519E91e3A54538791bDbb0E22373e36b66',
+      to: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      value: '10000',
+      validAfter: '1740672089',
+      validBefore: '1740672154',
+      nonce:
+        '0xf3746613c2d920b5fdabc0856f2aeb2d4f88ee6037b8cc5d04a71a4462f13480'
+    }
+  }
+}
+
+describe('decodePaymentPayload', () => {
+  it('decodes an EVM exact payload', () => {
+    const decoded = decodePaymentPayload(
+      stringToBase64(JSON.stringify(evmPayload))
+    )
+    expect(decoded.kind).toBe('evm-exact')
+    expect(isEvmExactPayment(decoded)).toBe(true)
+    if (isEvmExactPayment(decoded)) {
+      expect(decoded.payload.authorization.value).toBe('10000')
+    }
+    expect(decoded).toMatchObject({
+      x402Version: 2,
+      scheme: 'exact',
+      network: 'eip155:84532',
+      accepted: evmPayload.accepted,
+      raw: evmPayload
+    })
+  })
+
+  it('decodes x402 v1 Solana and ICP payloads', () => {
+    const solana = decodePaymentPayload({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'solana-devnet',
+      payload: { transaction: 'AQAAAAAAAAAAAAAAAAAAAAAA' }
+    })
+    expect(isSolanaPayment(solana)).toBe(true)
+    expect(solana.accepted).toBeNull()
+    expect(solana.payload).toEqual({ transaction: 'AQAAAAAAAAAAAAAAAAAAAAAA' })
+
+    const icp = decodePaymentPayload({
+      x402Version: 2,
+      accepted: {
+        ...evmPayload.accepted,
+        network: 'icp:1',
+        asset: 'druyg-tyaaa-aaaaq-aactq-cai',
+        payTo: '77ibd-jp5kr-moeco-kgoar-rro5v-5tng4-krif5-5h2i6-osf2f-2sjtv-kqe'
+      },
+      payload: {
+        signature: 'o2dkZWxlZ2F0aW9u',
+        authorization: {
+          scheme: 'exact',
+          asset: 'druyg-tyaaa-aaaaq-aactq-cai',
+          to: '77ibd-jp5kr-moeco-kgoar-rro5v-5tng4-krif5-5h2i6-osf2f-2sjtv-kqe',
+          value: '10000',
+          expiresAt: 1740672154000,
+          nonce: 1
+        }
+      }
+    })
+    expect(isIcpPayment(icp)).toBe(true)
+    expect(isEvmExactPayment(icp)).toBe(false)
+  })
+
+  it('keeps unknown networks and schemes opaque', () => {
+    const decoded = decodePaymentPayload({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'sui',
+      payload: { anything: true }
+    })
+    expect(decoded.kind).toBe('unknown')
+    expect(decoded.payload).toEqual({ anything: true })
+  })
+
+  it('rejects payloads that do not match their scheme', () => {
+    expect(() => decodePaymentPayload('not base64!')).toThrow(
+      InvalidPaymentPayloadError
+    )
+    try {
+      decodePaymentPayload({
+        ...evmPayload,
+        payload: { signature: '0x00', authorization: { from: '0x1' } }
+      })
+      expect.unreachable()
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidPaymentPayloadError)
+      expect((err as InvalidPaymentPayloadError).issues).toContainEqual({
+        path: '$.payload.authorization.value',
+        message:
+          'expected an amount in atomic units as a string of digits, got undefined'
+      })
+    }
+  })
+})
+
+describe('networkNamespace', () => {
+  it('maps CAIP-2 identifiers and legacy names', () => {
+    expect(networkNamespace('eip155:8453')).toBe('eip155')
+    expect(networkNamespace('base-sepolia')).toBe('eip155')
+    expect(networkNamespace('solana')).toBe('solana')
+    expect(networkNamespace('icp:1')).toBe('icp')
+    expect(networkNamespace('sui')).toBe('sui')
+  })
+})
@@ -0,0 +1,204 @@
+import { InvalidPaymentPayloadError } from './errors.js'
+import type {
+  EvmExactPayload,
+  IcpPayload,
+  PaymentPayload,
+  PaymentPayloadV1,
+  PaymentRequirements,
+  SolanaPayload
+} from './types.js'
+import { base64ToString } from './utils.js'
+import {
+  formatIssues,
+  validateEvmExactPayload,
+  validateIcpPayload,
+  validatePaymentPayload,
+  validatePaymentPayloadV1,
+  validateSolanaPayload,
+  type ValidationResult
+} from './validate.js'
+
+// The legacy x402 v1 network names of EVM chains.
+const EVM_NETWORKS = [
+  'abstract',
+  'abstract-testnet',
+  'avalanche',
+  'avalanche-fuji',
+  'base',
+  'base-sepolia',
+  'iotex',
+  'polygon',
+  'polygon-amoy',
+  'sei',
+  'sei-testnet'
+]
+
+/**
+ * The fields shared by all decoded payment payloads.
+ * @template K The kind of payload.
+ * @template T The type of the scheme-specific payload.
+ */
+export interface DecodedPaymentPayloadBase<K extends string, T> {
+  /** The kind of payload, determined by the network and scheme. */
+  kind: K
+  /** The version of the X402 protocol. */
+  x402Version: number
+  /** The payment scheme identifier. */
+  scheme: string
+  /** The blockchain network identifier. */
+  network: string
+  /** The payment requirements chosen by the payer, x402 v2 only. */
+  accepted: PaymentRequirements | null
+  /** The scheme-specific payload. */
+  payload: T
+  /** The full payment payload as it is sent to the merchant. */
+  raw: PaymentPayload<T> | PaymentPayloadV1<T>
+}
+
+/** A payment with an EIP-3009 authorization on an EVM network. */
+export type EvmExactPaymentPayload = DecodedPaymentPayloadBase<
+  'evm-exact',
+  EvmExactPayload
+>
+
+/** A payment with a partially signed transaction on a Solana network. */
+export type SolanaPaymentPayload = DecodedPaymentPayloadBase<
+  'solana',
+  SolanaPayload
+>
+
+/** A payment with an ICRC-2 transfer authorization on an ICP network. */
+export type IcpPaymentPayload = DecodedPaymentPayloadBase<'icp', IcpPayload>
+
+/** A payment on a network or with a scheme the kit does not know. */
+export type UnknownPaymentPayload = DecodedPaymentPayloadBase<
+  'unknown',
+  unknown
+>
+
+/**
+ * A decoded payment payload, discriminated by `kind`.
+ */
+export type DecodedPaymentPayload =
+  | EvmExactPaymentPayload
+  | SolanaPaymentPayload
+  | IcpPaymentPayload
+  | UnknownPaymentPayload
+
+/**
+ * Decodes the result of `waitForPaymentPayload` into a typed payment payload,
+ * e.g. to show the user what they authorized before it is sent to the merchant.
+ * @param result The base64 encoded payment payload, or the parsed payload.
+ * @returns The decoded payload.
+ * @throws {InvalidPaymentPayloadError} If the payload is malformed or does not match its network and scheme.
+ */
+export function decodePaymentPayload(
+  result: string | PaymentPayload<unknown> | PaymentPayloadV1<unknown>
+): DecodedPaymentPayload {
+  let value: unknown = result
+  if (typeof result === 'string') {
+    try {
+      value = JSON.parse(base64ToString(result))
+    } catch (err) {
+      throw new InvalidPaymentPayloadError(
+        'Invalid payment payload: not base64 encoded JSON',
+        [],
+        { cause: err }
+      )
+    }
+  }
+
+  const raw = assertValid<PaymentPayload<unknown> | PaymentPayloadV1<unknown>>(
+    typeof value === 'object' && value !== null && 'accepted' in value
+      ? validatePaymentPayload(value)
+      : validatePaymentPayloadV1(value)
+  )
+  const accepted = 'accepted' in raw ? raw.accepted : null
+  const { scheme, network } = 'accepted' in raw ? raw.accepted : raw
+  const base = {
+    x402Version: raw.x402Version,
+    scheme,
+    network,
+    accepted,
+    raw
+  }
+
+  const namespace = networkNamespace(network)
+  if (namespace === 'eip155' && scheme === 'exact') {
+    const payload = assertValid(
+      validateEvmExactPayload(raw.payload, '$.payload')
+    )
+    return { ...base, kind: 'evm-exact', payload } as EvmExactPaymentPayload
+  }
+  if (namespace === 'solana' && scheme === 'exact') {
+    const payload = assertValid(validateSolanaPayload(raw.payload, '$.payload'))
+    return { ...base, kind: 'solana', payload } as SolanaPaymentPayload
+  }
+  if (namespace === 'icp' && scheme === 'exact') {
+    const payload = assertValid(validateIcpPayload(raw.payload, '$.payload'))
+    return { ...base, kind: 'icp', payload } as IcpPaymentPayload
+  }
+  return { ...base, kind: 'unknown', payload: raw.payload }
+}
+
+/**
+ * Checks if a decoded payment payload carries an EIP-3009 authorization on an EVM network.
+ * @param payload The decoded payload.
+ * @returns True if it is an `evm-exact` payload.
+ */
+export function isEvmExactPayment(
+  payload: DecodedPaymentPayload
+): payload is EvmExactPaymentPayload {
+  return payload.kind === 'evm-exact'
+}
+
+/**
+ * Checks if a decoded payment payload carries a Solana transaction.
+ * @param payload The decoded payload.
+ * @returns True if it is a `solana` payload.
+ */
+export function isSolanaPayment(
+  payload: DecodedPaymentPayload
+): payload is SolanaPaymentPayload {
+  return payload.kind === 'solana'
+}
+
+/**
+ * Checks if a decoded payment payload carries an ICRC-2 transfer authorization on an ICP network.
+ * @param payload The decoded payload.
+ * @returns True if it is an `icp` payload.
+ */
+export function isIcpPayment(
+  payload: DecodedPaymentPayload
+): payload is IcpPaymentPayload {
+  return payload.kind === 'icp'
+}
+
+/**
+ * Returns the namespace of a network, e.g. `eip155` for `eip155:8453` or the legacy name `base`.
+ * @param network A CAIP-2 network identifier or a legacy x402 v1 network name.
+ * @returns The namespace, or the network itself if it is not known.
+ */
+export function networkNamespace(network: string): string {
+  const i = network.indexOf(':')
+  if (i > 0) {
+    return network.slice(0, i)
+  }
+  if (network === 'solana' || network === 'solana-devnet') {
+    return 'solana'
+  }
+  if (EVM_NETWORKS.includes(network)) {
+    return 'eip155'
+  }
+  return network
+}
+
+function assertValid<T>(result: ValidationResult<T>): T {
+  if (!result.ok) {
+    throw new InvalidPaymentPayloadError(
+      `Invalid payment payload: ${formatIssues(result.issues)}`,
+      result.issues
+    )
+  }
+  return result.value
+}
@@ -0,0 +1,143 @@
+import { decode, encode, rfc8949EncodeOptions } from 'cborg'
+import { describe, expect, it } from 'vitest'
+import {
+  InvalidPayUrlError,
+  InvalidSignatureError,
+  PayingKit,
+  base64ToBytes,
+  bytesToBase64Url,
+  gzipCompress,
+  gzipCompressSync,
+  gzipDecompress,
+  parsePayUrl,
+  type PaymentRequired
+} from './index.js'
+
+const requirements: PaymentRequired = {
+  x402Version: 2,
+  resource: {
+    url: 'https://api.example.com/premium-data',
+    description: 'Access to premium market data'
+  },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 60,
+      extra: { name: 'USDC', version: '2' }
+    }
+  ]
+}
+
+function replaceParam(payUrl: string, name: string, value: string): string {
+  const url = new URL(payUrl)
+  const params = new URLSearchParams(url.hash.slice(1))
+  params.set(name, value)
+  url.hash = params.toString()
+  return url.toString()
+}
+
+describe('parsePayUrl', () => {
+  it('decodes and verifies a pay URL', async () => {
+    const kit = new PayingKit()
+    const { payUrl, txid } = await kit.getPayUrl(requirements)
+
+    const parsed = await parsePayUrl(payUrl)
+    expect(parsed.endpoint).toBe('https://1pay.ing/sign')
+    expect(parsed.action).toBe('pay')
+    expect(parsed.txid).toBe(txid)
+    expect(parsed.message.pubkey).toEqual(kit.publicKey)
+    expect(parsed.message.nonce).toBe(1)
+    expect(parsed.message.payload).toEqual(requirements)
+    expect(kit.verify(parsed.bytes, parsed.signature)).toBe(true)
+    expect(new URLSearchParams(new URL(payUrl).hash.slice(1)).get('msg')).toBe(
+      bytesToBase64Url(gzipCompressSync(parsed.bytes))
+    )
+
+    expect(PayingKit.verifyMessage(parsed)).toBe(parsed.message)
+  })
+
+  it('rejects a tampered message', async () => {
+    const kit = new PayingKit()
+    const { payUrl } = await kit.getPayUrl(requirements)
+    const msg = new URLSearchParams(new URL(payUrl).hash.slice(1)).get('msg')!
+
+    // Lower the amount shown to the user without re-signing the message.
+    const compact = decode(await gzipDecompress(base64ToBytes(msg)))
+    compact.p.a[0].am = '1'
+    const tampered = replaceParam(
+      payUrl,
+      'msg',
+      bytesToBase64Url(
+        await gzipCompress(encode(compact, rfc8949EncodeOptions))
+      )
+    )
+
+    const parsed = await parsePayUrl(tampered)
+    expect(parsed.message.payload.accepts[0]).toMatchObject({ amount: '1' })
+    expect(() => PayingKit.verifyMessage(parsed)).toThrow(InvalidSignatureError)
+  })
+
+  it('rejects a txid signed by another key', async () => {
+    const { payUrl } = await new PayingKit().getPayUrl(requirements)
+    const other = await new PayingKit().getPayUrl(requirements)
+    const txid = new URLSearchParams(new URL(other.payUrl).hash.slice(1)).get(
+      'txid'
+    )!
+
+    const parsed = await parsePayUrl(replaceParam(payUrl, 'txid', txid))
+    expect(() => PayingKit.verifyMessage(parsed)).toThrow(
+      `Invalid signature for txid ${txid}`
+    )
+  })
+
+  it('fails with clear errors on malformed URLs', async () => {
+    const { payUrl } = await new PayingKit().getPayUrl(requirements)
+
+    await expect(parsePayUrl('not a url')).rejects.toThrow(InvalidPayUrlError)
+    await expect(
+      parsePayUrl('https://1pay.ing/sign?action=pay#txid=abc')
+    ).rejects.toThrow('Pay URL has no msg parameter in its fragment')
+    await expect(
+      parsePayUrl(replaceParam(payUrl, 'txid', 'AAAA'))
+    ).rejects.toThrow('expected a 64 bytes signature, got 3 bytes')
+    await expect(
+      parsePayUrl(replaceParam(payUrl, 'msg', '!!!'))
+    ).rejects.toThrow('Invalid msg: not base64url encoded')
+    await expect(
+      parsePayUrl(
+        replaceParam(
+          payUrl,
+          'msg',
+          bytesToBase64Url(
+            gzipCompressSync(encode({ pk: new Uint8Array(32), n: 1, p: {} }))
+          )
+        )
+      )
+    ).rejects.toMatchObject({
+      code: 'INVALID_PAY_URL',
+      message: expect.stringContaining('Invalid msg: Invalid compact message')
+    })
+    await expect(
+      parsePayUrl(replaceParam(payUrl, 'msg', 'AAAA'))
+    ).rejects.toThrow('Invalid msg: not gzip compressed')
+    await expect(
+      parsePayUrl(replaceParam(payUrl, 'enc', 'br'))
+    ).rejects.toThrow('Unsupported msg encoding: br')
+  })
+
+  it('marks the msg encoding and accepts legacy URLs without it', async () => {
+    const kit = new PayingKit()
+    const { payUrl } = await kit.getPayUrl(requirements)
+    expect(payUrl).toMatch(/#msg=[\w-]+&txid=[\w-]+&enc=gzip$/)
+    expect((await parsePayUrl(payUrl)).encoding).toBe('gzip')
+
+    const legacy = payUrl.replace('&enc=gzip', '')
+    const parsed = await parsePayUrl(legacy)
+    expect(parsed.encoding).toBeNull()
+    expect(PayingKit.verifyMessage(parsed).payload).toEqual(requirements)
+  })
+})
@@ -0,0 +1,159 @@
+import { decode } from 'cborg'
+import { InvalidPayUrlError } from './errors.js'
+import { gzipDecompress, tryDecompress } from './gzip.js'
+import type { MessageStore } from './message.js'
+import {
+  toMessage,
+  type Message,
+  type PaymentRequired,
+  type PaymentRequirementsResponse
+} from './types.js'
+import { base64ToBytes } from './utils.js'
+
+/**
+ * The encoding of the `msg` parameter of pay URLs created by this kit,
+ * given by the `enc` fragment parameter: Gzip compressed CBOR.
+ */
+export const PAY_URL_ENCODING = 'gzip'
+
+/**
+ * A pay URL taken apart by `parsePayUrl`.
+ */
+export interface ParsedPayUrl {
+  /** The URL of the sign page, without query and fragment. */
+  endpoint: string
+  /** The `action` query parameter, e.g. `pay`. */
+  action: string | null
+  /** The `ref` fragment parameter if the message was fetched from a message store. */
+  ref: string | null
+  /** The `enc` fragment parameter, or null for pay URLs that predate it. */
+  encoding: string | null
+  /** The transaction ID, the base64url encoded signature of `bytes`. */
+  txid: string
+  /** The decoded `txid`, a 64 bytes ed25519 signature. */
+  signature: Uint8Array
+  /** The signed CBOR encoding of the compact message. */
+  bytes: Uint8Array
+  /** The decoded message with the payment requirements. */
+  message: Message<PaymentRequirementsResponse | PaymentRequired>
+}
+
+/**
+ * Decodes a pay URL created by `PayingKit.getPayUrl`, e.g.
+ * `https://1pay.ing/sign?action=pay#msg=...&txid=...&enc=gzip`.
+ * The signature is not checked, use `PayingKit.verifyMessage` for that.
+ * @param url The pay URL.
+ * @param options The store to resolve `#ref=` URLs with, whose message was uploaded
+ * because it exceeded the `maxUrlLength` of the PayingKit.
+ * @returns The decoded parts of the URL.
+ * @throws {InvalidPayUrlError} If the URL or its message is malformed, or a referenced message is not found.
+ */
+export async function parsePayUrl(
+  url: string | URL,
+  options: { messageStore?: MessageStore } = {}
+): Promise<ParsedPayUrl> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch (err) {
+    throw new InvalidPayUrlError(`Invalid pay URL: ${String(url)}`, {
+      cause: err
+    })
+  }
+
+  const params = new URLSearchParams(parsed.hash.slice(1))
+  const ref = params.get('ref')
+  const txid = params.get('txid')
+  let msg = params.get('msg')
+  let encoding = params.get('enc')
+  if (ref !== null) {
+    if (!options.messageStore) {
+      throw new InvalidPayUrlError(
+        'Pay URL references a stored message, a message store is required'
+      )
+    }
+    const stored = await options.messageStore.get(ref)
+    if (!stored) {
+      throw new InvalidPayUrlError(`No stored message found for ref ${ref}`)
+    }
+    msg = stored.msg
+    encoding = stored.enc
+  }
+  if (!msg) {
+    throw new InvalidPayUrlError('Pay URL has no msg parameter in its fragment')
+  }
+  if (!txid) {
+    throw new InvalidPayUrlError(
+      'Pay URL has no txid parameter in its fragment'
+    )
+  }
+
+  const signature = decodeBase64(txid, 'txid')
+  if (signature.length !== 64) {
+    throw new InvalidPayUrlError(
+      `Invalid txid: expected a 64 bytes signature, got ${signature.length} bytes`
+    )
+  }
+
+  const bytes = await decodeMsg(decodeBase64(msg, 'msg'), encoding)
+  let compact: unknown
+  try {
+    compact = decode(bytes)
+  } catch (err) {
+    throw new InvalidPayUrlError(
+      `Invalid msg: not a CBOR encoded message, ${String(err)}`,
+      { cause: err }
+    )
+  }
+
+  let message: Message<PaymentRequirementsResponse | PaymentRequired>
+  try {
+    message = toMessage(compact as Parameters<typeof toMessage>[0])
+  } catch (err) {
+    throw new InvalidPayUrlError(`Invalid msg: ${(err as Error).message}`, {
+      cause: err
+    })
+  }
+
+  return {
+    endpoint: `${parsed.origin}${parsed.pathname}`,
+    action: parsed.searchParams.get('action'),
+    ref,
+    encoding,
+    txid,
+    signature,
+    bytes,
+    message
+  }
+}
+
+async function decodeMsg(
+  data: Uint8Array,
+  encoding: string | null
+): Promise<Uint8Array> {
+  if (encoding === null) {
+    // Older pay URLs have no marker, their msg may or may not be compressed.
+    return tryDecompress(data)
+  }
+  if (encoding !== PAY_URL_ENCODING) {
+    throw new InvalidPayUrlError(`Unsupported msg encoding: ${encoding}`)
+  }
+  try {
+    return await gzipDecompress(data)
+  } catch (err) {
+    throw new InvalidPayUrlError(
+      `Invalid msg: not gzip compressed, ${String(err)}`,
+      { cause: err }
+    )
+  }
+}
+
+function decodeBase64(value: string, name: string): Uint8Array {
+  try {
+    return base64ToBytes(value)
+  } catch (err) {
+    throw new InvalidPayUrlError(`Invalid ${name}: not base64url encoded`, {
+      cause: err
+    })
+  }
+}
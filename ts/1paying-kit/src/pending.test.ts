@@ -0,0 +1,177 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import {
+  PayingKit,
+  PaymentTimeoutError,
+  TransportError,
+  type PaymentRequired
+} from './index.js'
+import {
+  FilePendingStore,
+  LocalStoragePendingStore,
+  MemoryPendingStore,
+  pendingExpiresAt,
+  type PendingPayment
+} from './pending.js'
+
+const requirements: PaymentRequired = {
+  x402Version: 2,
+  resource: { url: 'https://api.example.com/premium-data' },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 60
+    },
+    {
+      scheme: 'exact',
+      network: 'icp:1',
+      amount: '100000000',
+      asset: 'druyg-tyaaa-aaaaq-aactq-cai',
+      payTo: '77ibd-jp5kr-moeco-kgoar-rro5v-5tng4-krif5-5h2i6-osf2f-2sjtv-kqe',
+      maxTimeoutSeconds: 120
+    }
+  ]
+}
+
+describe('PayingKit pending payments', () => {
+  it('resumes a pending payment from another session', async () => {
+    const pendingStore = new MemoryPendingStore()
+    const kit1 = new PayingKit({ pendingStore })
+    const { txid } = await kit1.getPayUrl(requirements)
+
+    const pending = await kit1.listPending()
+    expect(pending).toHaveLength(1)
+    expect(pending[0]).toMatchObject({
+      txid,
+      nonce: 1,
+      resource: 'https://api.example.com/premium-data'
+    })
+    expect(pendingExpiresAt(pending[0]!)).toBe(pending[0]!.createdAt + 120000)
+
+    // Simulate a reload: a new kit instance over the same store.
+    const kit2 = PayingKit.fromSecretKey(kit1.exportSecretKey(), {
+      pendingStore,
+      fetch: async () =>
+        Response.json({ status: 'completed', result: 'cGF5bG9hZA' })
+    })
+    expect(await kit2.resumePending(txid)).toBe('cGF5bG9hZA')
+    expect((await pendingStore.get(txid))?.result).toBe('cGF5bG9hZA')
+
+    await kit2.submitSettleResult(txid, {
+      success: true,
+      transaction: '0xabc',
+      network: 'eip155:84532'
+    })
+    expect(await kit2.listPending()).toEqual([])
+    await expect(kit2.resumePending(txid)).rejects.toThrow()
+  })
+
+  it('keeps payments after timeouts and network errors', async () => {
+    let fail = true
+    const kit = new PayingKit({
+      transport: 'polling',
+      fetch: async () =>
+        fail
+          ? new Response('bad gateway', { status: 502 })
+          : Response.json({ status: 'pending' })
+    })
+    const { txid } = await kit.getPayUrl(requirements)
+    await expect(
+      kit.waitForPaymentPayload(txid, { initialDelayMs: 0, maxRetries: 0 })
+    ).rejects.toBeInstanceOf(TransportError)
+    expect(await kit.listPending()).toHaveLength(1)
+
+    fail = false
+    await expect(
+      kit.waitForPaymentPayload(txid, { initialDelayMs: 0, timeoutMs: 10 })
+    ).rejects.toBeInstanceOf(PaymentTimeoutError)
+    expect(await kit.listPending()).toHaveLength(1)
+  })
+
+  it('drops failed and expired payments', async () => {
+    const kit = new PayingKit({
+      fetch: async () =>
+        Response.json({
+          status: 'error',
+          error: { code: 400, message: 'rejected' }
+        })
+    })
+    const { txid } = await kit.getPayUrl(requirements)
+    await expect(
+      kit.waitForPaymentPayload(txid, { initialDelayMs: 0 })
+    ).rejects.toMatchObject({ message: 'rejected' })
+    expect(await kit.listPending()).toEqual([])
+
+    await kit.getPayUrl(requirements)
+    expect(await kit.prunePending(Date.now() + 60000)).toBe(0)
+    expect(await kit.prunePending(Date.now() + 120000)).toBe(1)
+    expect(await kit.listPending()).toEqual([])
+  })
+})
+
+const payments: PendingPayment[] = ['tx1', 'tx2', 'tx3'].map((txid, i) => ({
+  txid,
+  requirements,
+  nonce: i + 1,
+  createdAt: 1_000_000 + i
+}))
+
+describe('LocalStoragePendingStore', () => {
+  it('keeps pending payments under one storage item', async () => {
+    const items = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        items.set(key, value)
+      },
+      removeItem: (key: string) => {
+        items.delete(key)
+      }
+    } as Storage
+    const store = new LocalStoragePendingStore('pending', storage)
+
+    await store.put(payments[0]!)
+    await store.put(payments[1]!)
+    expect(await store.get('tx1')).toEqual(payments[0])
+    expect(
+      await new LocalStoragePendingStore('pending', storage).list()
+    ).toEqual(payments.slice(0, 2))
+
+    await store.delete('tx1')
+    await store.delete('tx2')
+    expect(await store.get('tx1')).toBeNull()
+    expect(items.size).toBe(0)
+  })
+})
+
+describe('FilePendingStore', () => {
+  it('does not lose entries of concurrent writes', async () => {
+    const dir = await mkdtemp(join(tmpdir(), '1paying-'))
+    try {
+      const path = join(dir, 'nested', 'pending.json')
+      const store = new FilePendingStore(path)
+      expect(await store.list()).toEqual([])
+
+      await store.put(payments[0]!)
+      await Promise.all([
+        store.put(payments[1]!),
+        store.delete('tx1'),
+        store.put(payments[2]!)
+      ])
+      expect(await store.get('tx1')).toBeNull()
+      expect(await store.list()).toEqual(payments.slice(1))
+      expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({
+        tx2: payments[1],
+        tx3: payments[2]
+      })
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
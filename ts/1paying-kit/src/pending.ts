@@ -0,0 +1,212 @@
+import type { PaymentRequired, PaymentRequirementsResponse } from './types.js'
+
+const DEFAULT_TIMEOUT_SECONDS = 180
+
+/**
+ * Represents a payment that was handed to the 1pay.ing sign page but has not been settled yet.
+ */
+export interface PendingPayment {
+  /** The transaction ID returned by `getPayUrl`. */
+  txid: string
+  /** The original payment requirements that were signed. */
+  requirements: PaymentRequirementsResponse | PaymentRequired
+  /** The nonce used when signing the message. */
+  nonce: number
+  /** The URL of the protected resource, if known. */
+  resource?: string
+  /** Creation time in milliseconds since the Unix epoch. */
+  createdAt: number
+  /** The base64-encoded payment payload, once the payment has been completed. */
+  result?: string
+}
+
+/**
+ * A pluggable storage for pending payments.
+ */
+export interface PendingStore {
+  /**
+   * Gets a pending payment by its transaction ID.
+   * @param txid The transaction ID.
+   * @returns The pending payment, or null if not found.
+   */
+  get(txid: string): Promise<PendingPayment | null>
+  /**
+   * Inserts or replaces a pending payment.
+   * @param payment The pending payment.
+   */
+  put(payment: PendingPayment): Promise<void>
+  /**
+   * Removes a pending payment.
+   * @param txid The transaction ID.
+   */
+  delete(txid: string): Promise<void>
+  /**
+   * Lists all pending payments.
+   */
+  list(): Promise<PendingPayment[]>
+}
+
+/**
+ * Returns the time after which a pending payment can no longer complete,
+ * based on the largest `maxTimeoutSeconds` of its accepted requirements.
+ * @param payment The pending payment.
+ * @returns The expiry time in milliseconds since the Unix epoch.
+ */
+export function pendingExpiresAt(payment: PendingPayment): number {
+  const timeouts = (payment.requirements.accepts ?? []).map(
+    (req) => req.maxTimeoutSeconds
+  )
+  const seconds = timeouts.length
+    ? Math.max(...timeouts)
+    : DEFAULT_TIMEOUT_SECONDS
+  return payment.createdAt + seconds * 1000
+}
+
+/**
+ * A PendingStore that keeps pending payments in memory only.
+ */
+export class MemoryPendingStore implements PendingStore {
+  #payments = new Map<string, PendingPayment>()
+
+  async get(txid: string): Promise<PendingPayment | null> {
+    return this.#payments.get(txid) ?? null
+  }
+
+  async put(payment: PendingPayment): Promise<void> {
+    this.#payments.set(payment.txid, payment)
+  }
+
+  async delete(txid: string): Promise<void> {
+    this.#payments.delete(txid)
+  }
+
+  async list(): Promise<PendingPayment[]> {
+    return Array.from(this.#payments.values())
+  }
+}
+
+/**
+ * A PendingStore backed by the Web Storage API (`localStorage` by default),
+ * so that pending payments survive page reloads.
+ */
+export class LocalStoragePendingStore implements PendingStore {
+  #key: string
+  #storage: Storage
+
+  /**
+   * @param key The storage item key holding all pending payments.
+   * @param storage The Storage to use.
+   */
+  constructor(
+    key = '1paying:pending',
+    storage: Storage = globalThis.localStorage
+  ) {
+    this.#key = key
+    this.#storage = storage
+  }
+
+  async get(txid: string): Promise<PendingPayment | null> {
+    return this.#read()[txid] ?? null
+  }
+
+  async put(payment: PendingPayment): Promise<void> {
+    const payments = this.#read()
+    payments[payment.txid] = payment
+    this.#write(payments)
+  }
+
+  async delete(txid: string): Promise<void> {
+    const payments = this.#read()
+    delete payments[txid]
+    this.#write(payments)
+  }
+
+  async list(): Promise<PendingPayment[]> {
+    return Object.values(this.#read())
+  }
+
+  #read(): Record<string, PendingPayment> {
+    const val = this.#storage.getItem(this.#key)
+    return val ? JSON.parse(val) : {}
+  }
+
+  #write(payments: Record<string, PendingPayment>): void {
+    if (Object.keys(payments).length === 0) {
+      this.#storage.removeItem(this.#key)
+    } else {
+      this.#storage.setItem(this.#key, JSON.stringify(payments))
+    }
+  }
+}
+
+/**
+ * A PendingStore backed by a JSON file on the local file system (Node.js only).
+ */
+export class FilePendingStore implements PendingStore {
+  #path: string
+  #updates: Promise<void> = Promise.resolve()
+
+  /**
+   * @param path The path of the JSON file.
+   */
+  constructor(path: string) {
+    this.#path = path
+  }
+
+  async get(txid: string): Promise<PendingPayment | null> {
+    await this.#updates
+    return (await this.#read())[txid] ?? null
+  }
+
+  async put(payment: PendingPayment): Promise<void> {
+    await this.#update((payments) => {
+      payments[payment.txid] = payment
+    })
+  }
+
+  async delete(txid: string): Promise<void> {
+    await this.#update((payments) => {
+      delete payments[txid]
+    })
+  }
+
+  async list(): Promise<PendingPayment[]> {
+    await this.#updates
+    return Object.values(await this.#read())
+  }
+
+  #update(
+    change: (payments: Record<string, PendingPayment>) => void
+  ): Promise<void> {
+    // Chain the read-modify-write cycles, so that concurrent calls do not lose entries.
+    const update = this.#updates.then(async () => {
+      const payments = await this.#read()
+      change(payments)
+      await this.#write(payments)
+    })
+    this.#updates = update.catch(() => {})
+    return update
+  }
+
+  async #read(): Promise<Record<string, PendingPayment>> {
+    const fs = await import('node:fs/promises')
+    try {
+      return JSON.parse(await fs.readFile(this.#path, 'utf8'))
+    } catch (err) {
+      if ((err as { code?: string }).code === 'ENOENT') {
+        return {}
+      }
+      throw err
+    }
+  }
+
+  async #write(payments: Record<string, PendingPayment>): Promise<void> {
+    const fs = await import('node:fs/promises')
+    const { dirname } = await import('node:path')
+    await fs.mkdir(dirname(this.#path), { recursive: true })
+    await fs.writeFile(this.#path, JSON.stringify(payments, null, 2), {
+      encoding: 'utf8',
+      mode: 0o600
+    })
+  }
+}
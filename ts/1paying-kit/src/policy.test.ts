@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { PayingKit, stringToBase64 } from './index.js'
+import { applyPaymentPolicy, PaymentPolicyError } from './policy.js'
+import type { PaymentRequired } from './types.js'
+
+const requirements: PaymentRequired = {
+  x402Version: 2,
+  resource: { url: 'https://api.example.com/premium-data' },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'icp:1',
+      amount: '100000000',
+      asset: 'druyg-tyaaa-aaaaq-aactq-cai',
+      payTo: '77ibd-jp5kr-moeco-kgoar-rro5v-5tng4-krif5-5h2i6-osf2f-2sjtv-kqe',
+      maxTimeoutSeconds: 120
+    },
+    {
+      scheme: 'exact',
+      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      amount: '10000',
+      asset: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+      payTo: 'FRVJU92DEkT6yQyQtyEKwUeKWPqhHeYJqsTCdxUjq8iP',
+      maxTimeoutSeconds: 120
+    },
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x185a1DEf920B8c8f936988D70aC93aE453acf42B',
+      maxTimeoutSeconds: 300
+    }
+  ]
+}
+
+describe('applyPaymentPolicy', () => {
+  it('filters by network, asset and amount cap', () => {
+    const { requirements: filtered, rejected } = applyPaymentPolicy(
+      requirements,
+      {
+        networks: ['eip155:*', 'icp:1'],
+        maxAmounts: {
+          'druyg-tyaaa-aaaaq-aactq-cai': 10000000n,
+          '0x036cbd53842c5426634e7929541ec2318f3dcf7e': '10000'
+        }
+      }
+    )
+    expect(filtered.accepts.map((req) => req.network)).toEqual(['eip155:84532'])
+    expect(rejected.map((r) => [r.index, r.reason])).toEqual([
+      [
+        0,
+        'amount 100000000 of druyg-tyaaa-aaaaq-aactq-cai exceeds the maximum 10000000'
+      ],
+      [1, 'network solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1 is not allowed']
+    ])
+  })
+
+  it('ranks options by preference', () => {
+    const { requirements: ranked } = applyPaymentPolicy(requirements, {
+      prefer: [
+        { asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' },
+        { network: 'solana:*' }
+      ]
+    })
+    expect(ranked.accepts.map((req) => req.network)).toEqual([
+      'eip155:84532',
+      'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      'icp:1'
+    ])
+  })
+})
+
+describe('PayingKit with a policy', () => {
+  it('reports why nothing was acceptable', async () => {
+    const kit = new PayingKit({
+      policy: { assets: ['ryjl3-tyaaa-aaaaa-aaaba-cai'] }
+    })
+    const res = new Response('{}', {
+      status: 402,
+      headers: {
+        'PAYMENT-REQUIRED': stringToBase64(JSON.stringify(requirements))
+      }
+    })
+    const err = await kit.tryGetPayUrl(res).catch((err) => err)
+    expect(err).toBeInstanceOf(PaymentPolicyError)
+    expect(err.code).toBe('PAYMENT_POLICY_REJECTED')
+    expect(err.rejections).toHaveLength(3)
+  })
+
+  it('signs only the accepted options', async () => {
+    const kit = new PayingKit({ policy: { networks: ['icp:1'] } })
+    const { txid } = await kit.getPayUrl(requirements)
+    const [pending] = await kit.listPending()
+    expect(pending?.txid).toBe(txid)
+    expect(pending?.requirements.accepts).toEqual([requirements.accepts[0]])
+  })
+})
@@ -0,0 +1,208 @@
+import { PayingKitError } from './errors.js'
+import type {
+  PaymentRequired,
+  PaymentRequirements,
+  PaymentRequirementsResponse,
+  PaymentRequirementsV1,
+  SettleResponse
+} from './types.js'
+
+/**
+ * A preferred payment option. Options matching an earlier preference are ranked first.
+ */
+export interface PaymentPreference {
+  /** The network, e.g. `eip155:8453`, or a namespace pattern such as `eip155:*`. */
+  network?: string
+  /** The asset address. */
+  asset?: string
+}
+
+/**
+ * A client-side policy that controls which payment options users may pay with.
+ */
+export interface PaymentPolicy {
+  /**
+   * Allowed networks, as CAIP-2 identifiers (e.g. `eip155:8453`), legacy names
+   * (e.g. `base-sepolia`) or namespace patterns (e.g. `solana:*`).
+   * All networks are allowed if omitted.
+   */
+  networks?: string[]
+  /**
+   * Allowed asset addresses. All assets are allowed if omitted.
+   */
+  assets?: string[]
+  /**
+   * Allowed payment schemes. All schemes are allowed if omitted.
+   */
+  schemes?: PaymentRequirements['scheme'][]
+  /**
+   * The maximum amount in atomic units per asset address, compared with the authorized
+   * maximum of `upto` options. Options exceeding it are rejected; assets without a cap are not limited.
+   */
+  maxAmounts?: Record<string, string | bigint>
+  /**
+   * Ranks the remaining options, either by an ordered list of preferences
+   * or by a compare function.
+   */
+  prefer?:
+    | PaymentPreference[]
+    | ((
+        a: PaymentRequirements | PaymentRequirementsV1,
+        b: PaymentRequirements | PaymentRequirementsV1
+      ) => number)
+}
+
+/**
+ * Describes why a payment option was rejected by a policy.
+ */
+export interface PolicyRejection {
+  /** The index of the option in the original `accepts` list. */
+  index: number
+  /** The rejected option. */
+  requirements: PaymentRequirements | PaymentRequirementsV1
+  /** A human-readable reason. */
+  reason: string
+}
+
+/**
+ * Thrown when a payment policy rejects every option of a 402 response.
+ */
+export class PaymentPolicyError extends PayingKitError {
+  override name = 'PaymentPolicyError'
+  /** Why each option was rejected. */
+  readonly rejections: PolicyRejection[]
+
+  constructor(rejections: PolicyRejection[]) {
+    super(
+      'PAYMENT_POLICY_REJECTED',
+      `No acceptable payment option: ${rejections
+        .map((r) => `[${r.index}] ${r.reason}`)
+        .join('; ')}`
+    )
+    this.rejections = rejections
+  }
+}
+
+/**
+ * Returns the amount required by a payment option in atomic units,
+ * `amount` for x402 v2 and `maxAmountRequired` for x402 v1.
+ * For the `upto` scheme this is the maximum the payer authorizes.
+ * @param req The payment option.
+ * @returns The amount.
+ */
+export function requiredAmount(
+  req: PaymentRequirements | PaymentRequirementsV1
+): bigint {
+  return BigInt('maxAmountRequired' in req ? req.maxAmountRequired : req.amount)
+}
+
+/**
+ * Returns the amount charged for a settled payment in atomic units: the `amount` of the
+ * settle response, e.g. the consumed amount of an `upto` payment, or else the required amount.
+ * @param req The payment option that was paid.
+ * @param settle The settle response.
+ * @returns The amount.
+ */
+export function chargedAmount(
+  req: PaymentRequirements | PaymentRequirementsV1,
+  settle: SettleResponse
+): bigint {
+  return settle.amount === undefined
+    ? requiredAmount(req)
+    : BigInt(settle.amount)
+}
+
+/**
+ * Applies a payment policy to the options of a 402 response.
+ * @param requirements The payment requirements from the server.
+ * @param policy The policy to apply.
+ * @returns The requirements with only the acceptable options, ranked by preference,
+ * and the reasons why the other options were rejected.
+ */
+export function applyPaymentPolicy<
+  T extends PaymentRequired | PaymentRequirementsResponse
+>(
+  requirements: T,
+  policy: PaymentPolicy
+): { requirements: T; rejected: PolicyRejection[] } {
+  const accepted: { index: number; req: T['accepts'][number] }[] = []
+  const rejected: PolicyRejection[] = []
+  requirements.accepts.forEach((req, index) => {
+    const reason = checkOption(req, policy)
+    if (reason) {
+      rejected.push({ index, requirements: req, reason })
+    } else {
+      accepted.push({ index, req })
+    }
+  })
+
+  const prefer = policy.prefer
+  if (typeof prefer === 'function') {
+    accepted.sort((a, b) => prefer(a.req, b.req) || a.index - b.index)
+  } else if (prefer) {
+    const rank = (req: PaymentRequirements | PaymentRequirementsV1) => {
+      const i = prefer.findIndex(
+        (p) =>
+          (!p.network || matchNetwork(p.network, req.network)) &&
+          (!p.asset || sameAsset(p.asset, req.asset))
+      )
+      return i === -1 ? prefer.length : i
+    }
+    accepted.sort((a, b) => rank(a.req) - rank(b.req) || a.index - b.index)
+  }
+
+  return {
+    requirements: {
+      ...requirements,
+      accepts: accepted.map((a) => a.req)
+    },
+    rejected
+  }
+}
+
+function checkOption(
+  req: PaymentRequirements | PaymentRequirementsV1,
+  policy: PaymentPolicy
+): string | null {
+  if (policy.schemes && !policy.schemes.includes(req.scheme)) {
+    return `scheme ${req.scheme} is not allowed`
+  }
+  if (
+    policy.networks &&
+    !policy.networks.some((network) => matchNetwork(network, req.network))
+  ) {
+    return `network ${req.network} is not allowed`
+  }
+  if (policy.assets && !policy.assets.some((a) => sameAsset(a, req.asset))) {
+    return `asset ${req.asset} on ${req.network} is not allowed`
+  }
+
+  const cap = Object.entries(policy.maxAmounts ?? {}).find(([asset]) =>
+    sameAsset(asset, req.asset)
+  )
+  if (cap) {
+    const amount = requiredAmount(req)
+    if (amount > BigInt(cap[1])) {
+      return `amount ${amount} of ${req.asset} exceeds the maximum ${cap[1]}`
+    }
+  }
+  return null
+}
+
+function matchNetwork(pattern: string, network: string): boolean {
+  if (pattern.endsWith(':*')) {
+    return network.startsWith(pattern.slice(0, -1))
+  }
+  return pattern === network
+}
+
+/**
+ * Compares two asset addresses, ignoring the case of EVM addresses.
+ * @param a The first asset address.
+ * @param b The second asset address.
+ * @returns True if both refer to the same asset.
+ */
+export function sameAsset(a: string, b: string): boolean {
+  // EVM addresses are case-insensitive (EIP-55 checksums only vary the case).
+  return a.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b
+}
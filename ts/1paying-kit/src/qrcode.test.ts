@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { PayingKitError } from './index.js'
+import {
+  encodeQrCode,
+  qrCodeToSvg,
+  qrCodeToTerminal,
+  type QrCode
+} from './qrcode.js'
+
+// https://1pay.ing as version 2-M with mask 2, cross-checked with a reference encoder.
+const REFERENCE = [
+  '#######....#...##.#######',
+  '#.....#..#.##.....#.....#',
+  '#.###.#.#...#.#.#.#.###.#',
+  '#.###.#.#...#.....#.###.#',
+  '#.###.#.##..####..#.###.#',
+  '#.....#.##.#.####.#.....#',
+  '#######.#.#.#.#.#.#######',
+  '........####.#..#........',
+  '#.#####.......##..#####..',
+  '..###....#......##.#...#.',
+  '..#.#####......#..##.#.##',
+  '.##.##.#.####.#.#.#.....#',
+  '..###.#.#........####.###',
+  '####.#.#..#.###.#....#.#.',
+  '#.#.###...#..####.####.##',
+  '#...#..#....##.#.####...#',
+  '#.#########.#.#.#####.#..',
+  '........##.....##...##...',
+  '#######..#.##...#.#.#.###',
+  '#.....#.#..#..#.#...##..#',
+  '#.###.#.#.##...######.#.#',
+  '#.###.#.##..#######.#####',
+  '#.###.#.###..##.##...##.#',
+  '#.....#..#..##.##..###..#',
+  '#######.#.#.#.##.########'
+]
+
+function rows(qr: QrCode): string[] {
+  return qr.modules.map((row) => row.map((dark) => (dark ? '#' : '.')).join(''))
+}
+
+describe('QR code', () => {
+  it('encodes the reference matrix', () => {
+    const qr = encodeQrCode('https://1pay.ing', { minVersion: 2, mask: 2 })
+    expect(qr.version).toBe(2)
+    expect(qr.ecc).toBe('M')
+    expect(rows(qr)).toEqual(REFERENCE)
+  })
+
+  it('chooses the smallest version that fits', () => {
+    // Byte mode capacities of versions 1, 10 and 40.
+    expect(encodeQrCode('a'.repeat(14)).version).toBe(1)
+    expect(encodeQrCode('a'.repeat(15)).version).toBe(2)
+    expect(encodeQrCode('a'.repeat(213)).version).toBe(10)
+    expect(encodeQrCode('a'.repeat(2953), { ecc: 'L' }).version).toBe(40)
+    expect(encodeQrCode('a'.repeat(1273), { ecc: 'H' }).version).toBe(40)
+
+    const qr = encodeQrCode('a'.repeat(1000))
+    expect(qr.size).toBe(17 + 4 * qr.version)
+    expect(qr.modules).toHaveLength(qr.size)
+    for (const row of qr.modules) {
+      expect(row).toHaveLength(qr.size)
+    }
+  })
+
+  it('draws finder patterns in three corners', () => {
+    const qr = encodeQrCode('https://1pay.ing/sign?action=pay#ref=abc')
+    const finder = REFERENCE.slice(0, 7).map((row) => row.slice(0, 7))
+    const m = rows(qr)
+    const n = qr.size
+    expect(m.slice(0, 7).map((row) => row.slice(0, 7))).toEqual(finder)
+    expect(m.slice(0, 7).map((row) => row.slice(n - 7))).toEqual(finder)
+    expect(m.slice(n - 7).map((row) => row.slice(0, 7))).toEqual(finder)
+  })
+
+  it('rejects data that does not fit', () => {
+    expect(() => encodeQrCode('a'.repeat(2954), { ecc: 'L' })).toThrow(
+      PayingKitError
+    )
+    expect(() => encodeQrCode('a'.repeat(100), { maxVersion: 3 })).toThrow(
+      expect.objectContaining({ code: 'QR_DATA_TOO_LONG' })
+    )
+    expect(() => encodeQrCode('a', { mask: 8 })).toThrow(PayingKitError)
+  })
+
+  it('renders terminal block art', () => {
+    const qr = encodeQrCode('https://1pay.ing')
+    const lines = qrCodeToTerminal(qr).split('\n')
+    const total = qr.size + 4
+    expect(lines).toHaveLength(Math.ceil(total / 2))
+    for (const line of lines) {
+      expect([...line]).toHaveLength(total)
+    }
+    // The quiet zone is drawn as light blocks.
+    expect(lines[0]).toBe('█'.repeat(total))
+
+    const inverted = qrCodeToTerminal(qr, { margin: 0, invert: true })
+    // The top rows of the finder pattern are dark.
+    expect(inverted.split('\n')[0]!.startsWith('█▀▀▀▀▀█')).toBe(true)
+  })
+
+  it('renders SVG', () => {
+    const qr = encodeQrCode('https://1pay.ing')
+    const svg = qrCodeToSvg(qr, { moduleSize: 2, dark: '#123' })
+    const total = qr.size + 8
+    expect(svg).toContain(`viewBox="0 0 ${total} ${total}"`)
+    expect(svg).toContain(`width="${total * 2}"`)
+    expect(svg).toContain('fill="#123"')
+    const dark = qr.modules.flat().filter(Boolean).length
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(dark)
+  })
+})
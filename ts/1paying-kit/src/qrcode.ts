@@ -0,0 +1,701 @@
+import { PayingKitError } from './errors.js'
+
+/**
+ * The error correction level of a QR code, recovering about 7%, 15%, 25% or 30% of the data.
+ */
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H'
+
+/**
+ * Options for encoding a QR code.
+ */
+export interface QrCodeOptions {
+  /**
+   * The error correction level.
+   * @default 'M'
+   */
+  ecc?: QrErrorCorrection
+  /**
+   * The smallest version (1-40) to use. The smallest version that fits the data is chosen.
+   * @default 1
+   */
+  minVersion?: number
+  /**
+   * The largest version (1-40) to use.
+   * @default 40
+   */
+  maxVersion?: number
+  /**
+   * The mask pattern (0-7). The mask with the lowest penalty is chosen if omitted.
+   */
+  mask?: number
+}
+
+/**
+ * An encoded QR code.
+ */
+export interface QrCode {
+  /** The version, from 1 to 40. */
+  version: number
+  /** The number of modules per side, `17 + 4 * version`. */
+  size: number
+  /** The error correction level. */
+  ecc: QrErrorCorrection
+  /** The mask pattern, from 0 to 7. */
+  mask: number
+  /** The module matrix, indexed by `[y][x]`. `true` is a dark module. */
+  modules: boolean[][]
+}
+
+/**
+ * Options for rendering a QR code as text for terminals.
+ */
+export interface QrTerminalOptions {
+  /**
+   * The width of the quiet zone in modules.
+   * @default 2
+   */
+  margin?: number
+  /**
+   * Draws dark modules as blocks, for terminals with a light background.
+   * By default light modules are drawn, for terminals with a dark background.
+   * @default false
+   */
+  invert?: boolean
+}
+
+/**
+ * Options for rendering a QR code as SVG.
+ */
+export interface QrSvgOptions {
+  /**
+   * The width of the quiet zone in modules.
+   * @default 4
+   */
+  margin?: number
+  /**
+   * The size of a module in pixels.
+   * @default 4
+   */
+  moduleSize?: number
+  /**
+   * The color of dark modules.
+   * @default '#000'
+   */
+  dark?: string
+  /**
+   * The color of light modules and the quiet zone.
+   * @default '#fff'
+   */
+  light?: string
+}
+
+/**
+ * Encodes text, e.g. a pay URL, as a QR code in byte mode.
+ * @param data The text, encoded as UTF-8, or raw bytes.
+ * @param options The error correction level and version range.
+ * @returns The QR code.
+ * @throws {PayingKitError} With code `QR_DATA_TOO_LONG` if the data does not fit the largest version.
+ */
+export function encodeQrCode(
+  data: string | Uint8Array,
+  options: QrCodeOptions = {}
+): QrCode {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+  const ecc = options.ecc ?? 'M'
+  const minVersion = options.minVersion ?? 1
+  const maxVersion = options.maxVersion ?? 40
+  const mask = options.mask
+  if (
+    !Number.isInteger(minVersion) ||
+    !Number.isInteger(maxVersion) ||
+    minVersion < 1 ||
+    maxVersion > 40 ||
+    minVersion > maxVersion
+  ) {
+    throw new PayingKitError(
+      'INVALID_CONFIG',
+      `Invalid QR code version range ${minVersion}-${maxVersion}`
+    )
+  }
+  if (mask !== undefined && (!Number.isInteger(mask) || mask < 0 || mask > 7)) {
+    throw new PayingKitError('INVALID_CONFIG', `Invalid QR code mask ${mask}`)
+  }
+
+  let version = minVersion
+  while (
+    byteModeBits(bytes.length, version) >
+    dataCodewords(version, ecc) * 8
+  ) {
+    if (version >= maxVersion) {
+      throw new PayingKitError(
+        'QR_DATA_TOO_LONG',
+        `Data of ${bytes.length} bytes does not fit a QR code of version ${maxVersion}-${ecc}`
+      )
+    }
+    version++
+  }
+
+  const codewords = addEccAndInterleave(
+    encodeData(bytes, version, ecc),
+    version,
+    ecc
+  )
+  const matrix = new QrMatrix(version)
+  matrix.drawFunctionPatterns(ecc)
+  matrix.drawCodewords(codewords)
+
+  let best = mask ?? 0
+  if (mask === undefined) {
+    let minPenalty = Infinity
+    for (let m = 0; m < 8; m++) {
+      matrix.applyMask(m)
+      matrix.drawFormatBits(ecc, m)
+      const penalty = matrix.penalty()
+      if (penalty < minPenalty) {
+        best = m
+        minPenalty = penalty
+      }
+      // Masks are XOR, applying one again undoes it.
+      matrix.applyMask(m)
+    }
+  }
+  matrix.applyMask(best)
+  matrix.drawFormatBits(ecc, best)
+
+  return {
+    version,
+    size: matrix.size,
+    ecc,
+    mask: best,
+    modules: matrix.modules
+  }
+}
+
+/**
+ * Renders a QR code as Unicode block art, two module rows per line.
+ * @param qr The QR code.
+ * @param options The quiet zone and colors.
+ * @returns The lines joined with `\n`, without a trailing newline.
+ */
+export function qrCodeToTerminal(
+  qr: QrCode,
+  options: QrTerminalOptions = {}
+): string {
+  const margin = options.margin ?? 2
+  const invert = options.invert ?? false
+  const total = qr.size + margin * 2
+  // Modules outside the code and its quiet zone are left empty (the terminal background).
+  const filled = (x: number, y: number) => {
+    if (y >= total) {
+      return false
+    }
+    const dark = isDark(qr, x - margin, y - margin)
+    return invert ? dark : !dark
+  }
+
+  const lines: string[] = []
+  for (let y = 0; y < total; y += 2) {
+    let line = ''
+    for (let x = 0; x < total; x++) {
+      const top = filled(x, y)
+      const bottom = filled(x, y + 1)
+      line += top ? (bottom ? '█' : '▀') : bottom ? '▄' : ' '
+    }
+    lines.push(line)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Renders a QR code as an SVG document.
+ * @param qr The QR code.
+ * @param options The quiet zone, module size and colors.
+ * @returns The SVG markup.
+ */
+export function qrCodeToSvg(qr: QrCode, options: QrSvgOptions = {}): string {
+  const margin = options.margin ?? 4
+  const moduleSize = options.moduleSize ?? 4
+  const total = qr.size + margin * 2
+  const pixels = total * moduleSize
+
+  let path = ''
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.modules[y]![x]) {
+        path += `M${x + margin} ${y + margin}h1v1h-1z`
+      }
+    }
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${total}" width="${pixels}" height="${pixels}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${escapeAttr(options.light ?? '#fff')}"/>` +
+    `<path d="${path}" fill="${escapeAttr(options.dark ?? '#000')}"/>` +
+    `</svg>`
+  )
+}
+
+function isDark(qr: QrCode, x: number, y: number): boolean {
+  return x >= 0 && y >= 0 && x < qr.size && y < qr.size && qr.modules[y]![x]!
+}
+
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+}
+
+// Tables from ISO/IEC 18004, indexed by [ecc][version]; index 0 is unused.
+const ECC_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 }
+const FORMAT_BITS: Record<QrErrorCorrection, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2
+}
+
+const ECC_CODEWORDS_PER_BLOCK = [
+  [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30
+  ],
+  [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28
+  ],
+  [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30
+  ],
+  [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30
+  ]
+]
+
+const ECC_BLOCKS = [
+  [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25
+  ],
+  [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+  ],
+  [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68
+  ],
+  [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81
+  ]
+]
+
+/** The number of modules available for data and error correction codewords. */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const align = Math.floor(version / 7) + 2
+    result -= (25 * align - 10) * align - 55
+    if (version >= 7) {
+      result -= 36
+    }
+  }
+  return result
+}
+
+function dataCodewords(version: number, ecc: QrErrorCorrection): number {
+  const e = ECC_INDEX[ecc]
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[e]![version]! * ECC_BLOCKS[e]![version]!
+  )
+}
+
+/** The bits of a byte mode segment: mode indicator, character count and data. */
+function byteModeBits(length: number, version: number): number {
+  const countBits = version <= 9 ? 8 : 16
+  return length < 1 << countBits ? 4 + countBits + length * 8 : Infinity
+}
+
+function encodeData(
+  bytes: Uint8Array,
+  version: number,
+  ecc: QrErrorCorrection
+): number[] {
+  const capacity = dataCodewords(version, ecc) * 8
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1)
+    }
+  }
+
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  for (const b of bytes) {
+    append(b, 8)
+  }
+  // Terminator, then pad to a byte boundary.
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+
+  const result: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    let b = 0
+    for (let j = 0; j < 8; j++) {
+      b = (b << 1) | bits[i + j]!
+    }
+    result.push(b)
+  }
+  for (let pad = 0xec; result.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    result.push(pad)
+  }
+  return result
+}
+
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  ecc: QrErrorCorrection
+): number[] {
+  const e = ECC_INDEX[ecc]
+  const numBlocks = ECC_BLOCKS[e]![version]!
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[e]![version]!
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonDivisor(blockEccLen)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(
+      k,
+      k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1)
+    )
+    k += block.length
+    const remainder = reedSolomonRemainder(block, divisor)
+    if (i < numShortBlocks) {
+      // A placeholder so all blocks have the same length, skipped when interleaving.
+      block.push(0)
+    }
+    blocks.push(block.concat(remainder))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]!)
+      }
+    })
+  }
+  return result
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j]!, root)
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1]!
+      }
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const b of data) {
+    const factor = b ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor)
+    })
+  }
+  return result
+}
+
+/** Multiplies in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1. */
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+const PENALTY_RUN = 3
+const PENALTY_BLOCK = 3
+const PENALTY_FINDER = 40
+const PENALTY_BALANCE = 10
+const FINDER_LIKE = [1, 0, 1, 1, 1, 0, 1, 0, 0, 0, 0]
+
+class QrMatrix {
+  readonly version: number
+  readonly size: number
+  readonly modules: boolean[][]
+  readonly #reserved: boolean[][]
+
+  constructor(version: number) {
+    this.version = version
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    )
+    this.#reserved = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    )
+  }
+
+  drawFunctionPatterns(ecc: QrErrorCorrection): void {
+    for (let i = 0; i < this.size; i++) {
+      this.#setFunction(6, i, i % 2 === 0)
+      this.#setFunction(i, 6, i % 2 === 0)
+    }
+
+    this.#drawFinder(3, 3)
+    this.#drawFinder(this.size - 4, 3)
+    this.#drawFinder(3, this.size - 4)
+
+    const positions = this.#alignmentPositions()
+    const last = positions.length - 1
+    positions.forEach((y, i) => {
+      positions.forEach((x, j) => {
+        // Skip the three corners occupied by finder patterns.
+        if (
+          !(
+            (i === 0 && j === 0) ||
+            (i === 0 && j === last) ||
+            (i === last && j === 0)
+          )
+        ) {
+          this.#drawAlignment(x, y)
+        }
+      })
+    })
+
+    // Reserve the format areas, drawn again once the mask is known.
+    this.drawFormatBits(ecc, 0)
+    this.#drawVersion()
+  }
+
+  drawFormatBits(ecc: QrErrorCorrection, mask: number): void {
+    const data = (FORMAT_BITS[ecc] << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) {
+      rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | rem) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) {
+      this.#setFunction(8, i, getBit(bits, i))
+    }
+    this.#setFunction(8, 7, getBit(bits, 6))
+    this.#setFunction(8, 8, getBit(bits, 7))
+    this.#setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) {
+      this.#setFunction(14 - i, 8, getBit(bits, i))
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.#setFunction(this.size - 1 - i, 8, getBit(bits, i))
+    }
+    for (let i = 8; i < 15; i++) {
+      this.#setFunction(8, this.size - 15 + i, getBit(bits, i))
+    }
+    // The dark module.
+    this.#setFunction(8, this.size - 8, true)
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    // Zigzag through column pairs from the right, skipping the vertical timing pattern.
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5
+      }
+      const upward = ((right + 1) & 2) === 0
+      for (let vert = 0; vert < this.size; vert++) {
+        const y = upward ? this.size - 1 - vert : vert
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          if (!this.#reserved[y]![x] && i < codewords.length * 8) {
+            this.modules[y]![x] = getBit(codewords[i >>> 3]!, 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.#reserved[y]![x] && maskBit(mask, x, y)) {
+          this.modules[y]![x] = !this.modules[y]![x]
+        }
+      }
+    }
+  }
+
+  penalty(): number {
+    let result = 0
+    const lines: boolean[][] = [...this.modules]
+    for (let x = 0; x < this.size; x++) {
+      lines.push(this.modules.map((row) => row[x]!))
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of the same color.
+      let run = 1
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++
+        } else {
+          if (run >= 5) {
+            result += PENALTY_RUN + run - 5
+          }
+          run = 1
+        }
+      }
+      // Finder-like patterns 1:1:3:1:1 with four light modules on either side,
+      // counting the quiet zone as light.
+      for (let i = -4; i < line.length; i++) {
+        if (
+          FINDER_LIKE.every((bit, k) => (line[i + k] ? 1 : 0) === bit) ||
+          FINDER_LIKE.every(
+            (bit, k) => (line[i + k] ? 1 : 0) === FINDER_LIKE[10 - k]
+          )
+        ) {
+          result += PENALTY_FINDER
+        }
+      }
+    }
+
+    // 2x2 blocks of the same color.
+    let dark = 0
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const color = this.modules[y]![x]
+        if (color) {
+          dark++
+        }
+        if (
+          x + 1 < this.size &&
+          y + 1 < this.size &&
+          color === this.modules[y]![x + 1] &&
+          color === this.modules[y + 1]![x] &&
+          color === this.modules[y + 1]![x + 1]
+        ) {
+          result += PENALTY_BLOCK
+        }
+      }
+    }
+
+    // The deviation of the dark ratio from 50%, in steps of 5%.
+    const total = this.size * this.size
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+    return result + Math.max(0, k) * PENALTY_BALANCE
+  }
+
+  #setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark
+    this.#reserved[y]![x] = true
+  }
+
+  #drawFinder(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.#setFunction(xx, yy, dist !== 2 && dist !== 4)
+        }
+      }
+    }
+  }
+
+  #drawAlignment(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.#setFunction(
+          x + dx,
+          y + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+        )
+      }
+    }
+  }
+
+  #drawVersion(): void {
+    if (this.version < 7) {
+      return
+    }
+    let rem = this.version
+    for (let i = 0; i < 12; i++) {
+      rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    }
+    const bits = (this.version << 12) | rem
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i)
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.#setFunction(a, b, bit)
+      this.#setFunction(b, a, bit)
+    }
+  }
+
+  #alignmentPositions(): number[] {
+    if (this.version === 1) {
+      return []
+    }
+    const count = Math.floor(this.version / 7) + 2
+    const step =
+      Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2
+    const result = [6]
+    for (let pos = this.size - 7; result.length < count; pos -= step) {
+      result.splice(1, 0, pos)
+    }
+    return result
+  }
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0
+    case 1:
+      return y % 2 === 0
+    case 2:
+      return x % 3 === 0
+    case 3:
+      return (x + y) % 3 === 0
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+function getBit(value: number, i: number): boolean {
+  return ((value >>> i) & 1) !== 0
+}
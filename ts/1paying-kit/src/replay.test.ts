@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import type { SettleResponse } from './index.js'
+import {
+  MemoryPaymentReplayStore,
+  SqlPaymentReplayStore,
+  hashPaymentPayload,
+  hashRequest,
+  type PaymentReplayStore,
+  type SqlStorageLike
+} from './replay.js'
+
+const settled: SettleResponse = {
+  success: true,
+  transaction: '0xabc',
+  network: 'eip155:84532',
+  payer: '0xpayer'
+}
+
+// Runs the statements of SqlPaymentReplayStore against a Map, like SqlStorage would.
+function fakeSql() {
+  const rows = new Map<string, Record<string, unknown>>()
+  const queries: string[] = []
+  const sql: SqlStorageLike = {
+    exec(query, ...bindings) {
+      const q = query.trim().replace(/\s+/g, ' ')
+      queries.push(q)
+      if (q.startsWith('DELETE') && q.includes('expires_at')) {
+        for (const [key, row] of rows) {
+          if ((row['expires_at'] as number) <= (bindings[0] as number)) {
+            rows.delete(key)
+          }
+        }
+      } else if (q.startsWith('DELETE')) {
+        rows.delete(bindings[0] as string)
+      } else if (q.startsWith('INSERT')) {
+        const [key, request_hash, settle_response, expires_at] = bindings
+        if (rows.has(key as string)) {
+          return { toArray: () => [] }
+        }
+        rows.set(key as string, { request_hash, settle_response, expires_at })
+        return { toArray: () => [{ key }] }
+      } else if (q.startsWith('SELECT')) {
+        const row = rows.get(bindings[0] as string)
+        return { toArray: () => (row ? [row] : []) }
+      } else if (q.startsWith('UPDATE')) {
+        const row = rows.get(bindings[0] as string)
+        if (row) {
+          row['settle_response'] = bindings[1]
+        }
+      }
+      return { toArray: () => [] }
+    }
+  }
+  return { sql, queries }
+}
+
+describe.each<[string, () => PaymentReplayStore]>([
+  ['MemoryPaymentReplayStore', () => new MemoryPaymentReplayStore()],
+  ['SqlPaymentReplayStore', () => new SqlPaymentReplayStore(fakeSql().sql)]
+])('%s', (_, create) => {
+  it('claims, completes and releases payments', async () => {
+    const store = create()
+    const record = {
+      requestHash: 'req1',
+      settleResponse: null,
+      expiresAt: Date.now() + 60_000
+    }
+
+    expect(await store.claim('key', record)).toBeNull()
+    expect(
+      await store.claim('key', { ...record, requestHash: 'req2' })
+    ).toEqual(record)
+
+    await store.complete('key', settled)
+    expect(await store.claim('key', record)).toEqual({
+      ...record,
+      settleResponse: settled
+    })
+
+    await store.release('key')
+    expect(await store.claim('key', record)).toBeNull()
+  })
+
+  it('drops expired records', async () => {
+    const store = create()
+    const record = {
+      requestHash: 'req1',
+      settleResponse: null,
+      expiresAt: Date.now() - 1
+    }
+    expect(await store.claim('key', record)).toBeNull()
+    expect(await store.claim('key', record)).toBeNull()
+  })
+})
+
+describe('SqlPaymentReplayStore', () => {
+  it('creates its table', () => {
+    const { sql, queries } = fakeSql()
+    new SqlPaymentReplayStore(sql, 'coffee_payment')
+    expect(queries[0]).toContain('CREATE TABLE IF NOT EXISTS coffee_payment(')
+    expect(() => new SqlPaymentReplayStore(sql, 'x; DROP TABLE y')).toThrow(
+      /Invalid table name/
+    )
+  })
+})
+
+describe('replay hashes', () => {
+  it('hashes the scheme-specific payload regardless of key order', () => {
+    const a = hashPaymentPayload({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      payload: { signature: '0x1', authorization: { from: 'a', to: 'b' } }
+    })
+    const b = hashPaymentPayload({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      payload: { authorization: { to: 'b', from: 'a' }, signature: '0x1' }
+    })
+    expect(a).toMatch(/^[0-9a-f]{64}$/)
+    expect(a).toBe(b)
+  })
+
+  it('hashes the method, URL and body of requests', async () => {
+    const req = (body: string) =>
+      new Request('https://shop.example.com/api/make-coffee', {
+        method: 'POST',
+        body
+      })
+    const request = req('{"size":"tall"}')
+    expect(await hashRequest(request)).toBe(
+      await hashRequest(req('{"size":"tall"}'))
+    )
+    expect(await hashRequest(request)).not.toBe(
+      await hashRequest(req('{"size":"grande"}'))
+    )
+    expect(await request.text()).toBe('{"size":"tall"}')
+  })
+})
@@ -0,0 +1,222 @@
+import { sha256 } from '@noble/hashes/sha2'
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils'
+import { PayingKitError } from './errors.js'
+import type {
+  PaymentPayload,
+  PaymentPayloadV1,
+  SettleResponse
+} from './types.js'
+
+/**
+ * The state of a payment payload that was submitted to a protected resource.
+ */
+export interface PaymentReplayRecord {
+  /** The hash of the request that first submitted the payment, see `hashRequest`. */
+  requestHash: string
+  /** The settle response, or null while the payment is being settled. */
+  settleResponse: SettleResponse | null
+  /** The time in milliseconds since the epoch after which the record may be dropped. */
+  expiresAt: number
+}
+
+/**
+ * A pluggable storage that remembers submitted payment payloads, so that a payment
+ * is settled once and can not be reused for a different request.
+ */
+export interface PaymentReplayStore {
+  /**
+   * Claims a payment payload for a request, unless it has been claimed before.
+   * Must be atomic: of concurrent claims for the same key, only one may succeed.
+   * @param key The hash of the payment payload, see `hashPaymentPayload`.
+   * @param record The record to store, with a null settle response.
+   * @returns The existing record if the key has already been claimed, otherwise null.
+   */
+  claim(
+    key: string,
+    record: PaymentReplayRecord
+  ): Promise<PaymentReplayRecord | null>
+  /**
+   * Stores the settle response of a claimed payment.
+   * @param key The hash of the payment payload.
+   * @param settleResponse The successful settle response.
+   */
+  complete(key: string, settleResponse: SettleResponse): Promise<void>
+  /**
+   * Releases a claim whose payment was not settled, so that it can be submitted again.
+   * @param key The hash of the payment payload.
+   */
+  release(key: string): Promise<void>
+}
+
+/**
+ * A PaymentReplayStore that keeps the records in memory, for single-process servers and tests.
+ */
+export class MemoryPaymentReplayStore implements PaymentReplayStore {
+  #records = new Map<string, PaymentReplayRecord>()
+
+  async claim(
+    key: string,
+    record: PaymentReplayRecord
+  ): Promise<PaymentReplayRecord | null> {
+    const now = Date.now()
+    for (const [k, r] of this.#records) {
+      if (r.expiresAt <= now) {
+        this.#records.delete(k)
+      }
+    }
+
+    const existing = this.#records.get(key)
+    if (existing) {
+      return { ...existing }
+    }
+    this.#records.set(key, { ...record })
+    return null
+  }
+
+  async complete(key: string, settleResponse: SettleResponse): Promise<void> {
+    const record = this.#records.get(key)
+    if (record) {
+      record.settleResponse = settleResponse
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.#records.delete(key)
+  }
+}
+
+/**
+ * The parts of a SQL storage used by `SqlPaymentReplayStore`, compatible with the
+ * `SqlStorage` of Cloudflare Durable Objects (`ctx.storage.sql`).
+ */
+export interface SqlStorageLike {
+  exec(
+    query: string,
+    ...bindings: unknown[]
+  ): { toArray(): Record<string, unknown>[] }
+}
+
+/**
+ * A PaymentReplayStore backed by a SQLite table, e.g. next to the order ledger of a
+ * Durable Object. Claims are atomic because a Durable Object runs its SQL queries synchronously.
+ */
+export class SqlPaymentReplayStore implements PaymentReplayStore {
+  #sql: SqlStorageLike
+  #table: string
+
+  /**
+   * Creates the table if it does not exist.
+   * @param sql The SQL storage.
+   * @param table The table name.
+   */
+  constructor(sql: SqlStorageLike, table = 'x402_payment') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new PayingKitError('INVALID_CONFIG', `Invalid table name: ${table}`)
+    }
+    this.#sql = sql
+    this.#table = table
+    this.#sql.exec(`
+      CREATE TABLE IF NOT EXISTS ${table}(
+        key TEXT PRIMARY KEY,
+        request_hash TEXT NOT NULL,
+        settle_response TEXT,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_${table}_expires_at ON ${table}(expires_at);
+    `)
+  }
+
+  async claim(
+    key: string,
+    record: PaymentReplayRecord
+  ): Promise<PaymentReplayRecord | null> {
+    this.#sql.exec(
+      `DELETE FROM ${this.#table} WHERE expires_at <= ?1`,
+      Date.now()
+    )
+    const inserted = this.#sql
+      .exec(
+        `INSERT INTO ${this.#table} (key, request_hash, settle_response, expires_at)
+        VALUES (?1, ?2, ?3, ?4)
+        ON CONFLICT(key) DO NOTHING
+        RETURNING key`,
+        key,
+        record.requestHash,
+        record.settleResponse ? JSON.stringify(record.settleResponse) : null,
+        record.expiresAt
+      )
+      .toArray()
+    if (inserted.length > 0) {
+      return null
+    }
+
+    const row = this.#sql
+      .exec(
+        `SELECT request_hash, settle_response, expires_at FROM ${this.#table} WHERE key = ?1`,
+        key
+      )
+      .toArray()[0]
+    if (!row) {
+      return null
+    }
+    return {
+      requestHash: String(row['request_hash']),
+      settleResponse: row['settle_response']
+        ? (JSON.parse(String(row['settle_response'])) as SettleResponse)
+        : null,
+      expiresAt: Number(row['expires_at'])
+    }
+  }
+
+  async complete(key: string, settleResponse: SettleResponse): Promise<void> {
+    this.#sql.exec(
+      `UPDATE ${this.#table} SET settle_response = ?2 WHERE key = ?1`,
+      key,
+      JSON.stringify(settleResponse)
+    )
+  }
+
+  async release(key: string): Promise<void> {
+    this.#sql.exec(`DELETE FROM ${this.#table} WHERE key = ?1`, key)
+  }
+}
+
+/**
+ * Hashes the scheme-specific part of a payment payload, i.e. the signed authorization
+ * that can only be spent once. Key order does not affect the hash.
+ * @param payload The payment payload.
+ * @returns The hex encoded SHA-256 hash.
+ */
+export function hashPaymentPayload(
+  payload: PaymentPayload<unknown> | PaymentPayloadV1<unknown>
+): string {
+  return bytesToHex(sha256(utf8ToBytes(canonicalJson(payload.payload))))
+}
+
+/**
+ * Hashes the method, URL and body of a request, to tell a retry from a different request.
+ * The body is read from a clone, so the request can still be consumed.
+ * @param request The request.
+ * @returns The hex encoded SHA-256 hash.
+ */
+export async function hashRequest(request: Request): Promise<string> {
+  const body = new Uint8Array(await request.clone().arrayBuffer())
+  return bytesToHex(
+    sha256(concatBytes(utf8ToBytes(`${request.method} ${request.url}\n`), body))
+  )
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (typeof value === 'object' && value !== null) {
+    const obj = value as Record<string, unknown>
+    const entries = Object.keys(obj)
+      .sort()
+      .filter((key) => obj[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(obj[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
@@ -0,0 +1,528 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodePaymentRequiredHeader,
+  decodePaymentResponseHeader,
+  encodePaymentSignatureHeader,
+  type PaymentRequired,
+  type PaymentRequirementsResponse,
+  type SettleResponse,
+  type VerifyResponse
+} from './index.js'
+import { MemoryPaymentReplayStore } from './replay.js'
+import {
+  honoPayment,
+  requirePayment,
+  withPayment,
+  type HonoContextLike,
+  type PaymentResult
+} from './server.js'
+
+const accepted = {
+  scheme: 'exact' as const,
+  network: 'eip155:84532',
+  amount: '10000',
+  asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+  maxTimeoutSeconds: 60,
+  extra: { name: 'USDC', version: '2' }
+}
+
+const paymentRequired: PaymentRequired = {
+  x402Version: 2,
+  error: 'Payment required',
+  resource: { url: 'https://shop.example.com/api/make-coffee' },
+  accepts: [accepted]
+}
+
+const signature = encodePaymentSignatureHeader({
+  x402Version: 2,
+  accepted,
+  payload: { signature: '0x1234', authorization: {} }
+})
+
+function facilitator(
+  settle: SettleResponse | Response,
+  verify: VerifyResponse = { isValid: true, payer: '0xpayer' }
+) {
+  const calls: { url: string; body: any }[] = []
+  return {
+    calls,
+    options: {
+      facilitators: { 'eip155:84532': 'https://facilitator.example.com/' },
+      fetch: async (input: RequestInfo | URL, init?: RequestInit) => {
+        calls.push({ url: String(input), body: JSON.parse(String(init?.body)) })
+        if (String(input).endsWith('/verify')) {
+          return Response.json(verify)
+        }
+        return settle instanceof Response ? settle : Response.json(settle)
+      }
+    }
+  }
+}
+
+const success: SettleResponse = {
+  success: true,
+  transaction: '0xabc',
+  network: 'eip155:84532',
+  payer: '0xpayer'
+}
+
+const paid = (payment: PaymentResult) => Response.json({ payer: payment.payer })
+
+function post(headers: Record<string, string> = {}) {
+  return new Request('https://shop.example.com/api/make-coffee', {
+    method: 'POST',
+    headers
+  })
+}
+
+describe('requirePayment', () => {
+  it('responds with 402 and the PAYMENT-REQUIRED header', async () => {
+    const { calls, options } = facilitator(success)
+    const res = await requirePayment(paymentRequired, options)(post(), () => {
+      throw new Error('not paid')
+    })
+
+    expect(res.status).toBe(402)
+    expect(
+      decodePaymentRequiredHeader(res.headers.get('PAYMENT-REQUIRED')!)
+    ).toEqual(paymentRequired)
+    expect(await res.json()).toEqual(paymentRequired)
+    expect(calls).toEqual([])
+  })
+
+  it('settles and sets the PAYMENT-RESPONSE header', async () => {
+    const { calls, options } = facilitator(success)
+    const res = await requirePayment(paymentRequired, options)(
+      post({ 'PAYMENT-SIGNATURE': signature }),
+      (_, payment) => paid(payment)
+    )
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ payer: '0xpayer' })
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+    ).toEqual(success)
+    expect(calls).toHaveLength(1)
+    expect(calls[0]!.url).toBe('https://facilitator.example.com/settle')
+    expect(calls[0]!.body).toMatchObject({
+      x402Version: 2,
+      paymentHeader: signature,
+      paymentRequirements: accepted
+    })
+  })
+
+  it('matches x402 v1 payloads by scheme and network', async () => {
+    const { amount, ...rest } = accepted
+    const v1: PaymentRequirementsResponse = {
+      x402Version: 1,
+      error: 'X-PAYMENT header is required',
+      accepts: [
+        {
+          ...rest,
+          maxAmountRequired: amount,
+          resource: 'https://shop.example.com/api/make-coffee',
+          description: 'A coffee',
+          mimeType: 'application/json'
+        }
+      ]
+    }
+    const { calls, options } = facilitator(success)
+    const res = await requirePayment(v1, options)(
+      post({
+        'X-PAYMENT': encodePaymentSignatureHeader({
+          x402Version: 1,
+          scheme: 'exact',
+          network: 'eip155:84532',
+          payload: { signature: '0x1234', authorization: {} }
+        })
+      }),
+      (_, payment) => paid(payment)
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('X-PAYMENT-RESPONSE')).toBeTruthy()
+    expect(calls[0]!.body.paymentRequirements).toEqual(v1.accepts[0])
+  })
+
+  it('rejects invalid payments', async () => {
+    const { calls, options } = facilitator(success)
+    const middleware = requirePayment(paymentRequired, options)
+    const handler = () => new Response('coffee')
+
+    let res = await middleware(post({ 'PAYMENT-SIGNATURE': 'nope' }), handler)
+    expect(res.status).toBe(400)
+
+    res = await middleware(
+      post({
+        'PAYMENT-SIGNATURE': encodePaymentSignatureHeader({
+          x402Version: 2,
+          accepted: { ...accepted, amount: '1' },
+          payload: {}
+        })
+      }),
+      handler
+    )
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({
+      error: 'Payment Requirements Not Accepted'
+    })
+
+    res = await requirePayment(
+      { ...paymentRequired, accepts: [{ ...accepted, network: 'eip155:1' }] },
+      options
+    )(
+      post({
+        'PAYMENT-SIGNATURE': encodePaymentSignatureHeader({
+          x402Version: 2,
+          accepted: { ...accepted, network: 'eip155:1' },
+          payload: {}
+        })
+      }),
+      handler
+    )
+    expect(res.status).toBe(500)
+    expect(calls).toEqual([])
+  })
+
+  it('responds with 402 if the settlement is unsuccessful', async () => {
+    const { options } = facilitator({
+      ...success,
+      success: false,
+      errorReason: 'insufficient_funds'
+    })
+    const res = await requirePayment(paymentRequired, options)(
+      post({ 'PAYMENT-SIGNATURE': signature }),
+      () => new Response('coffee')
+    )
+
+    expect(res.status).toBe(402)
+    expect(res.headers.get('PAYMENT-REQUIRED')).toBeTruthy()
+    expect((await res.json()).error).toContain('insufficient_funds')
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+        .errorReason
+    ).toBe('insufficient_funds')
+  })
+
+  it('prices requests with a function', async () => {
+    const { options } = facilitator(success)
+    const res = await requirePayment(
+      (req) => ({
+        ...paymentRequired,
+        resource: { url: req.url }
+      }),
+      options
+    )(new Request('https://shop.example.com/espresso'), () => new Response())
+
+    const required = decodePaymentRequiredHeader(
+      res.headers.get('PAYMENT-REQUIRED')!
+    )
+    expect('resource' in required && required.resource).toEqual({
+      url: 'https://shop.example.com/espresso'
+    })
+  })
+})
+
+describe('requirePayment with verifyFirst', () => {
+  it('verifies, runs the handler and then settles', async () => {
+    const { calls, options } = facilitator(success)
+    let settled: PaymentResult['settleResponse'] | undefined
+    const res = await requirePayment(paymentRequired, {
+      ...options,
+      verifyFirst: true
+    })(post({ 'PAYMENT-SIGNATURE': signature }), (_, payment) => {
+      settled = payment.settleResponse
+      return paid(payment)
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ payer: '0xpayer' })
+    expect(settled).toBeNull()
+    expect(calls.map((c) => c.url)).toEqual([
+      'https://facilitator.example.com/verify',
+      'https://facilitator.example.com/settle'
+    ])
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+    ).toEqual(success)
+  })
+
+  it('skips the settlement if the handler fails', async () => {
+    const { calls, options } = facilitator(success)
+    const res = await requirePayment(paymentRequired, {
+      ...options,
+      verifyFirst: true
+    })(
+      post({ 'PAYMENT-SIGNATURE': signature }),
+      () => new Response('out of beans', { status: 503 })
+    )
+
+    expect(res.status).toBe(503)
+    expect(await res.text()).toBe('out of beans')
+    expect(calls.map((c) => c.url)).toEqual([
+      'https://facilitator.example.com/verify'
+    ])
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+    ).toEqual({
+      success: false,
+      errorReason: 'handler_failed',
+      transaction: '',
+      network: 'eip155:84532',
+      payer: '0xpayer'
+    })
+  })
+
+  it('does not run the handler for invalid payments', async () => {
+    const { calls, options } = facilitator(success, {
+      isValid: false,
+      invalidReason: 'invalid_exact_evm_payload_signature'
+    })
+    const res = await requirePayment(paymentRequired, {
+      ...options,
+      verifyFirst: true
+    })(post({ 'PAYMENT-SIGNATURE': signature }), () => {
+      throw new Error('not paid')
+    })
+
+    expect(res.status).toBe(402)
+    expect(res.headers.get('PAYMENT-REQUIRED')).toBeTruthy()
+    expect((await res.json()).error).toContain('invalid_exact_evm_payload')
+    expect(calls).toHaveLength(1)
+  })
+
+  it('withholds the response if the settlement fails', async () => {
+    const { options } = facilitator({
+      ...success,
+      success: false,
+      errorReason: 'invalid_transaction_state'
+    })
+    const res = await requirePayment(paymentRequired, {
+      ...options,
+      verifyFirst: true
+    })(post({ 'PAYMENT-SIGNATURE': signature }), () => new Response('coffee'))
+
+    expect(res.status).toBe(402)
+    expect(await res.text()).not.toContain('coffee')
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+        .errorReason
+    ).toBe('invalid_transaction_state')
+  })
+
+  it('does not settle after maxTimeoutSeconds', async () => {
+    const { calls, options } = facilitator(success)
+    const res = await requirePayment(
+      {
+        ...paymentRequired,
+        accepts: [{ ...accepted, maxTimeoutSeconds: 1 }]
+      },
+      { ...options, verifyFirst: true }
+    )(
+      post({
+        'PAYMENT-SIGNATURE': encodePaymentSignatureHeader({
+          x402Version: 2,
+          accepted: { ...accepted, maxTimeoutSeconds: 1 },
+          payload: {}
+        })
+      }),
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1100))
+        return new Response('coffee')
+      }
+    )
+
+    expect(res.status).toBe(402)
+    expect(calls).toHaveLength(1)
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+        .errorReason
+    ).toBe('payment_expired')
+  })
+
+  it('settles the charged amount of upto payments', async () => {
+    const upto = { ...accepted, scheme: 'upto' as const, amount: '50000' }
+    const pay = (charge?: string) => {
+      const { calls, options } = facilitator(success)
+      const res = requirePayment(
+        { ...paymentRequired, accepts: [upto] },
+        { ...options, verifyFirst: true }
+      )(
+        post({
+          'PAYMENT-SIGNATURE': encodePaymentSignatureHeader({
+            x402Version: 2,
+            accepted: upto,
+            payload: { signature: '0x1234', authorization: {} }
+          })
+        }),
+        (_, payment) => {
+          if (charge !== undefined) {
+            payment.charge(charge)
+          }
+          return paid(payment)
+        }
+      )
+      return { calls, res }
+    }
+
+    const charged = pay('12000')
+    let res = await charged.res
+    expect(res.status).toBe(200)
+    expect(charged.calls[1]!.body.paymentRequirements.amount).toBe('12000')
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+    ).toEqual({ ...success, amount: '12000' })
+
+    const max = pay()
+    res = await max.res
+    expect(max.calls[1]!.body.paymentRequirements.amount).toBe('50000')
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!).amount
+    ).toBe('50000')
+
+    const free = pay('0')
+    res = await free.res
+    expect(res.status).toBe(200)
+    expect(free.calls).toHaveLength(1)
+    expect(
+      decodePaymentResponseHeader(res.headers.get('PAYMENT-RESPONSE')!)
+    ).toMatchObject({ success: true, amount: '0' })
+
+    await expect(pay('50001').res).rejects.toMatchObject({
+      code: 'INVALID_AMOUNT'
+    })
+  })
+
+  it('only charges upto payments', async () => {
+    const { options } = facilitator(success)
+    const charge = (_: Request, payment: PaymentResult) => {
+      payment.charge('5000')
+      return paid(payment)
+    }
+    await expect(
+      requirePayment(paymentRequired, { ...options, verifyFirst: true })(
+        post({ 'PAYMENT-SIGNATURE': signature }),
+        charge
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_AMOUNT' })
+    await expect(
+      requirePayment(paymentRequired, options)(
+        post({ 'PAYMENT-SIGNATURE': signature }),
+        charge
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_AMOUNT' })
+  })
+})
+
+describe('requirePayment with a replayStore', () => {
+  it('settles a payment and runs the handler once', async () => {
+    const { calls, options } = facilitator(success)
+    const middleware = requirePayment(paymentRequired, {
+      ...options,
+      replayStore: new MemoryPaymentReplayStore()
+    })
+    const order = (size: string) =>
+      new Request('https://shop.example.com/api/make-coffee', {
+        method: 'POST',
+        headers: { 'PAYMENT-SIGNATURE': signature },
+        body: JSON.stringify({ size })
+      })
+
+    let coffees = 0
+    const brew = (_: Request, payment: PaymentResult) => {
+      coffees += 1
+      return paid(payment)
+    }
+    const first = await middleware(order('tall'), brew)
+    expect(first.status).toBe(200)
+    const retry = await middleware(order('tall'), brew)
+    expect(retry.status).toBe(409)
+    expect(await retry.json()).toEqual({ error: 'Payment Already Settled' })
+    expect(
+      decodePaymentResponseHeader(retry.headers.get('PAYMENT-RESPONSE')!)
+    ).toEqual(success)
+    expect(coffees).toBe(1)
+    expect(calls).toHaveLength(1)
+
+    const reused = await middleware(order('grande'), () => {
+      throw new Error('not paid')
+    })
+    expect(reused.status).toBe(409)
+    expect(await reused.json()).toEqual({ error: 'Payment Already Used' })
+    expect(calls).toHaveLength(1)
+  })
+
+  it('releases payments that were not settled', async () => {
+    const { calls, options } = facilitator(success)
+    const middleware = requirePayment(paymentRequired, {
+      ...options,
+      verifyFirst: true,
+      replayStore: new MemoryPaymentReplayStore()
+    })
+
+    const failed = await middleware(
+      post({ 'PAYMENT-SIGNATURE': signature }),
+      () => new Response(null, { status: 500 })
+    )
+    expect(failed.status).toBe(500)
+    const res = await middleware(
+      post({ 'PAYMENT-SIGNATURE': signature }),
+      (_, payment) => paid(payment)
+    )
+    expect(res.status).toBe(200)
+    expect(calls.map((c) => c.url.split('/').pop())).toEqual([
+      'verify',
+      'verify',
+      'settle'
+    ])
+  })
+})
+
+describe('payment adapters', () => {
+  it('wraps fetch handlers', async () => {
+    const { options } = facilitator(success)
+    const handler = withPayment(
+      paymentRequired,
+      options,
+      (_, payment, env: { greeting: string }) =>
+        new Response(`${env.greeting} ${payment.payer}`)
+    )
+
+    const res = await handler(post({ 'PAYMENT-SIGNATURE': signature }), {
+      greeting: 'Hi'
+    })
+    expect(await res.text()).toBe('Hi 0xpayer')
+    expect(res.headers.get('PAYMENT-RESPONSE')).toBeTruthy()
+  })
+
+  it('works as a Hono middleware', async () => {
+    const { options } = facilitator(success)
+    const middleware = honoPayment(paymentRequired, options)
+    const context = (headers: Record<string, string>) => {
+      const vars: Record<string, unknown> = {}
+      const c: HonoContextLike & { vars: typeof vars } = {
+        req: { raw: post(headers) },
+        res: new Response(null, { status: 404 }),
+        set: (key, value) => void (vars[key] = value),
+        vars
+      }
+      return c
+    }
+
+    const unpaid = context({})
+    const res = await middleware(unpaid, async () => {
+      throw new Error('not paid')
+    })
+    expect(res?.status).toBe(402)
+
+    const c = context({ 'PAYMENT-SIGNATURE': signature })
+    const next = await middleware(c, async () => {
+      c.res = new Response('coffee')
+    })
+    expect(next).toBeUndefined()
+    expect(c.vars['payment']).toMatchObject({ settleResponse: success })
+    expect(await c.res.text()).toBe('coffee')
+    expect(c.res.headers.get('PAYMENT-RESPONSE')).toBeTruthy()
+  })
+})
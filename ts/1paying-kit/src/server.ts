@@ -0,0 +1,554 @@
+import {
+  InvalidPaymentPayloadError,
+  PayingKitError,
+  TransportError
+} from './errors.js'
+import {
+  FacilitatorClient,
+  PaymentInvalidError,
+  SettlementFailedError
+} from './facilitator.js'
+import {
+  decodePaymentSignatureHeader,
+  encodePaymentRequiredHeader,
+  encodePaymentResponseHeader
+} from './header.js'
+import { requiredAmount } from './policy.js'
+import {
+  hashPaymentPayload,
+  hashRequest,
+  type PaymentReplayStore
+} from './replay.js'
+import type { FetchLike } from './transport.js'
+import type {
+  PaymentPayload,
+  PaymentPayloadV1,
+  PaymentRequired,
+  PaymentRequirements,
+  PaymentRequirementsResponse,
+  PaymentRequirementsV1,
+  SettleResponse,
+  VerifyResponse
+} from './types.js'
+
+/**
+ * The requirements of a protected resource, or a function that prices each request.
+ */
+export type RequirementsSource =
+  | PaymentRequired
+  | PaymentRequirementsResponse
+  | ((
+      request: Request
+    ) =>
+      | PaymentRequired
+      | PaymentRequirementsResponse
+      | Promise<PaymentRequired | PaymentRequirementsResponse>)
+
+/**
+ * Options for `requirePayment`.
+ */
+export interface RequirePaymentOptions {
+  /**
+   * The facilitator client, or the facilitator base URLs keyed by network, e.g. the
+   * `X402_FACILITATORS` variable of a worker: `{ 'eip155:84532': 'https://www.x402.org/facilitator' }`.
+   */
+  facilitators: FacilitatorClient | Record<string, string>
+  /**
+   * The fetch implementation used to call the facilitators, if given by URL.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchLike
+  /**
+   * Verifies the payment before running the handler and only settles it if the handler
+   * responds with a 2xx status, so customers do not pay for failed requests.
+   * @default false (settle before running the handler)
+   */
+  verifyFirst?: boolean
+  /**
+   * Remembers submitted payments, so each payment runs the handler once. Resubmitting a settled
+   * payment gets a `409`, for a retry of the same request with the cached settle response.
+   */
+  replayStore?: PaymentReplayStore
+  /**
+   * How long the replay store remembers a settled payment, in seconds.
+   * @default 86400 (1 day)
+   */
+  replayTtlSeconds?: number
+  /**
+   * Identifies a request to tell retries from different requests.
+   * @default `hashRequest`, a hash of the method, URL and body
+   */
+  requestHash?: (request: Request) => string | Promise<string>
+}
+
+/**
+ * A settled or verified payment, passed to the protected handler.
+ * @template T The type of the scheme-specific payload.
+ */
+export interface PaymentResult<T = unknown> {
+  /** The payment payload sent by the client. */
+  paymentPayload: PaymentPayload<T> | PaymentPayloadV1<T>
+  /** The payment option that was paid. */
+  paymentRequirements: PaymentRequirements | PaymentRequirementsV1
+  /** The payer reported by the facilitator, if any. */
+  payer: string | null
+  /** The verify response of the facilitator, or null if the payment was settled directly. */
+  verifyResponse: VerifyResponse | null
+  /** The settle response of the facilitator, or null while settlement waits for the handler (`verifyFirst`). */
+  settleResponse: SettleResponse | null
+  /**
+   * Sets the amount to settle for an `upto` payment, e.g. the metered usage, at most the
+   * authorized maximum. Only available with `verifyFirst`, before the handler returns.
+   * Without a call, the maximum is charged.
+   * @param amount The amount in atomic units.
+   * @throws {PayingKitError} With code `INVALID_AMOUNT` if the payment is not `upto` or the amount is not allowed.
+   */
+  charge(amount: string | bigint): void
+}
+
+/**
+ * A protected handler, called once the payment has been settled, or verified with `verifyFirst`.
+ */
+export type PaidHandler = (
+  request: Request,
+  payment: PaymentResult
+) => Response | Promise<Response>
+
+/**
+ * Runs a handler behind an x402 payment, see `requirePayment`.
+ */
+export type PaymentMiddleware = (
+  request: Request,
+  handler: PaidHandler
+) => Promise<Response>
+
+/**
+ * Creates a framework-agnostic x402 payment middleware for standard `Request`/`Response` handlers.
+ * Requests without a `PAYMENT-SIGNATURE` (or x402 v1 `X-PAYMENT`) header get a `402` response
+ * with the `PAYMENT-REQUIRED` header. Paid requests are matched against the accepted options,
+ * settled through the facilitator of their network and passed to the handler, whose response
+ * gets the `PAYMENT-RESPONSE` header. With `verifyFirst`, payments are only verified before the
+ * handler runs and settled once it succeeds. Facilitator requests must finish within the
+ * `maxTimeoutSeconds` of the paid option. A `replayStore` makes sure each payment is settled
+ * once and only used for one request.
+ * @param requirements The payment requirements, or a function returning them per request.
+ * @param options The facilitators to settle with.
+ * @returns The middleware.
+ */
+export function requirePayment(
+  requirements: RequirementsSource,
+  options: RequirePaymentOptions
+): PaymentMiddleware {
+  const facilitator =
+    options.facilitators instanceof FacilitatorClient
+      ? options.facilitators
+      : new FacilitatorClient(options.facilitators, {
+          ...(options.fetch ? { fetch: options.fetch } : {})
+        })
+
+  return async (request, handler) => {
+    const required =
+      typeof requirements === 'function'
+        ? await requirements(request)
+        : requirements
+    const paymentRequired = {
+      'PAYMENT-REQUIRED': encodePaymentRequiredHeader(required)
+    }
+
+    const header =
+      request.headers.get('PAYMENT-SIGNATURE') ||
+      request.headers.get('X-PAYMENT')
+    if (!header) {
+      return jsonResponse(required, 402, paymentRequired)
+    }
+
+    let paymentPayload: PaymentPayload<unknown> | PaymentPayloadV1<unknown>
+    try {
+      paymentPayload = decodePaymentSignatureHeader(header)
+    } catch (err) {
+      if (err instanceof InvalidPaymentPayloadError) {
+        return jsonResponse({ error: 'Invalid Payment Payload' }, 400)
+      }
+      throw err
+    }
+    if (paymentPayload.x402Version !== required.x402Version) {
+      return jsonResponse({ error: 'Incompatible Payment Version' }, 400)
+    }
+
+    const paymentRequirements = findAcceptedRequirements(
+      required,
+      paymentPayload
+    )
+    if (!paymentRequirements) {
+      return jsonResponse({ error: 'Payment Requirements Not Accepted' }, 400)
+    }
+
+    if (!facilitator.urlFor(paymentRequirements.network)) {
+      return jsonResponse(
+        { error: 'No Facilitator Configured for Network' },
+        500
+      )
+    }
+
+    // The authorization of the payment is only valid for maxTimeoutSeconds.
+    const deadline = Date.now() + paymentRequirements.maxTimeoutSeconds * 1000
+    const responseHeader =
+      'accepted' in paymentPayload ? 'PAYMENT-RESPONSE' : 'X-PAYMENT-RESPONSE'
+    const replayStore = options.replayStore
+    const replayKey = replayStore ? hashPaymentPayload(paymentPayload) : ''
+    if (replayStore) {
+      const requestHash = await (options.requestHash ?? hashRequest)(request)
+      const existing = await replayStore.claim(replayKey, {
+        requestHash,
+        settleResponse: null,
+        expiresAt: Date.now() + (options.replayTtlSeconds ?? 86400) * 1000
+      })
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          return jsonResponse({ error: 'Payment Already Used' }, 409)
+        }
+        if (!existing.settleResponse) {
+          return jsonResponse({ error: 'Payment In Progress' }, 409)
+        }
+        // A retry of a settled request, e.g. after a lost response, must not be served twice.
+        return jsonResponse({ error: 'Payment Already Settled' }, 409, {
+          [responseHeader]: encodePaymentResponseHeader(existing.settleResponse)
+        })
+      }
+    }
+    const release = async () => {
+      if (replayStore) {
+        await replayStore.release(replayKey)
+      }
+    }
+
+    let payer: string | null = null
+    let charged: bigint | null = null
+    let chargeable = false
+    const charge = (amount: string | bigint) => {
+      if (!chargeable) {
+        notChargeable()
+      }
+      charged = checkCharge(paymentRequirements, amount)
+    }
+    const failed = (errorReason: string): SettleResponse => ({
+      success: false,
+      errorReason,
+      transaction: '',
+      network: paymentRequirements.network,
+      ...(payer ? { payer } : {})
+    })
+    const settle = async (): Promise<SettleResponse | Response> => {
+      const result = await settleOnce()
+      if (result instanceof Response) {
+        await release()
+      } else if (replayStore) {
+        await replayStore.complete(replayKey, result)
+      }
+      return result
+    }
+    const settleOnce = async (): Promise<SettleResponse | Response> => {
+      if (charged === 0n) {
+        // Nothing was consumed, so nothing is transferred.
+        return {
+          success: true,
+          transaction: '',
+          network: paymentRequirements.network,
+          ...(payer ? { payer } : {}),
+          amount: '0'
+        }
+      }
+      const timeoutMs = deadline - Date.now()
+      if (timeoutMs <= 0) {
+        return jsonResponse({ error: 'Payment Expired' }, 402, {
+          ...paymentRequired,
+          [responseHeader]: encodePaymentResponseHeader(
+            failed('payment_expired')
+          )
+        })
+      }
+      try {
+        const settled = await facilitator.settle(
+          paymentPayload,
+          charged === null
+            ? paymentRequirements
+            : withAmount(paymentRequirements, charged),
+          { paymentHeader: header, timeoutMs }
+        )
+        if (paymentRequirements.scheme === 'upto' && !settled.amount) {
+          // Report the charged amount even if the facilitator does not.
+          settled.amount = String(
+            charged ?? requiredAmount(paymentRequirements)
+          )
+        }
+        return settled
+      } catch (err) {
+        if (err instanceof SettlementFailedError) {
+          return jsonResponse({ error: err.message }, 402, {
+            ...paymentRequired,
+            [responseHeader]: encodePaymentResponseHeader(err.settleResponse)
+          })
+        }
+        if (err instanceof TransportError) {
+          return jsonResponse(
+            { error: `Payment settlement failed: ${err.message}` },
+            500,
+            {
+              [responseHeader]: encodePaymentResponseHeader(
+                failed('unexpected_settle_error')
+              )
+            }
+          )
+        }
+        throw err
+      }
+    }
+
+    if (options.verifyFirst) {
+      let verifyResponse: VerifyResponse
+      try {
+        verifyResponse = await facilitator.verify(
+          paymentPayload,
+          paymentRequirements,
+          { paymentHeader: header, timeoutMs: deadline - Date.now() }
+        )
+        payer = verifyResponse.payer ?? null
+      } catch (err) {
+        await release()
+        if (err instanceof PaymentInvalidError) {
+          return jsonResponse({ error: err.message }, 402, paymentRequired)
+        }
+        if (err instanceof TransportError) {
+          return jsonResponse(
+            { error: `Payment verification failed: ${err.message}` },
+            500
+          )
+        }
+        throw err
+      }
+
+      let response: Response
+      chargeable = true
+      try {
+        response = await handler(request, {
+          paymentPayload,
+          paymentRequirements,
+          payer,
+          verifyResponse,
+          settleResponse: null,
+          charge
+        })
+      } catch (err) {
+        await release()
+        throw err
+      } finally {
+        chargeable = false
+      }
+      if (!response.ok) {
+        // Customers do not pay for failed requests.
+        await release()
+        return withHeader(
+          response,
+          responseHeader,
+          encodePaymentResponseHeader(failed('handler_failed'))
+        )
+      }
+
+      const settleResponse = await settle()
+      if (settleResponse instanceof Response) {
+        // The resource must not be delivered without payment.
+        await response.body?.cancel()
+        return settleResponse
+      }
+      return withHeader(
+        response,
+        responseHeader,
+        encodePaymentResponseHeader(settleResponse)
+      )
+    }
+
+    const settleResponse = await settle()
+    if (settleResponse instanceof Response) {
+      return settleResponse
+    }
+    const response = await handler(request, {
+      paymentPayload,
+      paymentRequirements,
+      payer: settleResponse.payer ?? null,
+      verifyResponse: null,
+      settleResponse,
+      charge: notChargeable
+    })
+    return withHeader(
+      response,
+      responseHeader,
+      encodePaymentResponseHeader(settleResponse)
+    )
+  }
+}
+
+/**
+ * Wraps a plain fetch handler, e.g. the `fetch` of a Cloudflare Worker or Deno.serve,
+ * so that it only runs for paid requests.
+ * @param requirements The payment requirements, or a function returning them per request.
+ * @param options The facilitators to settle with.
+ * @param handler The protected handler, called with the settled payment and the remaining arguments.
+ * @returns A fetch handler.
+ */
+export function withPayment<A extends unknown[]>(
+  requirements: RequirementsSource,
+  options: RequirePaymentOptions,
+  handler: (
+    request: Request,
+    payment: PaymentResult,
+    ...args: A
+  ) => Response | Promise<Response>
+): (request: Request, ...args: A) => Promise<Response> {
+  const middleware = requirePayment(requirements, options)
+  return (request, ...args) =>
+    middleware(request, (req, payment) => handler(req, payment, ...args))
+}
+
+/**
+ * The parts of a Hono context used by `honoPayment`.
+ */
+export interface HonoContextLike {
+  req: { raw: Request }
+  res: Response
+  set(key: 'payment', value: PaymentResult): void
+}
+
+/**
+ * Creates a Hono middleware that only calls the next handler for paid requests.
+ * The settled payment is available as `c.get('payment')`.
+ * @param requirements The payment requirements, or a function returning them per request.
+ * @param options The facilitators to settle with.
+ * @returns The Hono middleware.
+ */
+export function honoPayment(
+  requirements: RequirementsSource,
+  options: RequirePaymentOptions
+): (c: HonoContextLike, next: () => Promise<void>) => Promise<Response | void> {
+  const middleware = requirePayment(requirements, options)
+  return async (c, next) => {
+    let called = false
+    const res = await middleware(c.req.raw, async (_, payment) => {
+      called = true
+      c.set('payment', payment)
+      await next()
+      return c.res
+    })
+    if (!called) {
+      return res
+    }
+    c.res = res
+  }
+}
+
+function notChargeable(): never {
+  throw new PayingKitError(
+    'INVALID_AMOUNT',
+    'The amount of a payment can only be charged with verifyFirst, before it is settled'
+  )
+}
+
+function checkCharge(
+  req: PaymentRequirements | PaymentRequirementsV1,
+  amount: string | bigint
+): bigint {
+  if (req.scheme !== 'upto') {
+    throw new PayingKitError(
+      'INVALID_AMOUNT',
+      `Only upto payments can be charged a consumed amount, not ${req.scheme}`
+    )
+  }
+  const max = requiredAmount(req)
+  const value =
+    typeof amount === 'bigint' || /^\d+$/.test(amount) ? BigInt(amount) : -1n
+  if (value < 0n || value > max) {
+    throw new PayingKitError(
+      'INVALID_AMOUNT',
+      `Invalid amount ${amount}, expected at most the authorized ${max}`
+    )
+  }
+  return value
+}
+
+function withAmount<T extends PaymentRequirements | PaymentRequirementsV1>(
+  req: T,
+  amount: bigint
+): T {
+  return 'maxAmountRequired' in req
+    ? { ...req, maxAmountRequired: amount.toString() }
+    : { ...req, amount: amount.toString() }
+}
+
+function findAcceptedRequirements(
+  required: PaymentRequired | PaymentRequirementsResponse,
+  payload: PaymentPayload<unknown> | PaymentPayloadV1<unknown>
+): PaymentRequirements | PaymentRequirementsV1 | null {
+  const accepts: (PaymentRequirements | PaymentRequirementsV1)[] =
+    required.accepts
+  if ('accepted' in payload) {
+    // x402 v2 payloads echo the chosen option, which must be one of ours unchanged.
+    return accepts.find((req) => deepEqual(req, payload.accepted)) ?? null
+  }
+  return (
+    accepts.find(
+      (req) => req.scheme === payload.scheme && req.network === payload.network
+    ) ?? null
+  )
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true
+  }
+  if (
+    typeof a !== 'object' ||
+    a === null ||
+    typeof b !== 'object' ||
+    b === null
+  ) {
+    return false
+  }
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        keysB.includes(key) &&
+        deepEqual(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key]
+        )
+    )
+  )
+}
+
+function jsonResponse(
+  body: unknown,
+  status: number,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    }
+  })
+}
+
+function withHeader(res: Response, name: string, value: string): Response {
+  try {
+    res.headers.set(name, value)
+    return res
+  } catch {
+    // The headers of some responses, e.g. from fetch, are immutable.
+    const copy = new Response(res.body, res)
+    copy.headers.set(name, value)
+    return copy
+  }
+}
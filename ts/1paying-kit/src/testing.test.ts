@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PayingKit,
+  PaymentRejectedError,
+  decodePaymentPayload,
+  type PaymentRequired
+} from './index.js'
+import { withPayment } from './server.js'
+import {
+  MockFacilitator,
+  MockPayingApi,
+  MockSigner,
+  createMockFetch
+} from './testing.js'
+
+const paymentRequired: PaymentRequired = {
+  x402Version: 2,
+  resource: { url: 'https://shop.example.com/api/make-coffee' },
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'eip155:84532',
+      amount: '10000',
+      asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 60
+    }
+  ]
+}
+
+const fast = { initialDelayMs: 0, pollIntervalMs: 5, jitter: 0 }
+
+function setup() {
+  const api = new MockPayingApi()
+  const facilitator = new MockFacilitator()
+  const signer = new MockSigner(api)
+  const merchant = withPayment(
+    paymentRequired,
+    { facilitators: { '*': facilitator.url }, fetch: (i, n) => fetch(i, n) },
+    (_, payment) => Response.json({ payer: payment.payer })
+  )
+  const fetch = createMockFetch({
+    api,
+    facilitators: [facilitator],
+    fallback: (input, init) => merchant(new Request(input, init))
+  })
+  return { api, facilitator, signer, fetch }
+}
+
+describe('testing', () => {
+  it('pays a protected resource end to end', async () => {
+    const { api, facilitator, signer, fetch } = setup()
+    const kit = new PayingKit({ fetch })
+
+    const res = await kit.fetch(paymentRequired.resource!.url, undefined, {
+      ...fast,
+      openPayUrl: (payUrl) => signer.sign(payUrl).then(() => {})
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ payer: `0x${'11'.repeat(20)}` })
+    expect(res.settleResponse).toMatchObject({ success: true })
+    expect(facilitator.requests.map((r) => r.endpoint)).toEqual(['settle'])
+    expect(api.transaction(res.txid!)).toMatchObject({
+      state: { status: 'completed' },
+      settlement: { tx: res.settleResponse!.transaction, status: 'finalized' }
+    })
+  })
+
+  it('drives the transaction state machine', async () => {
+    const { api, signer } = setup()
+    const kit = new PayingKit({ fetch: createMockFetch({ api }) })
+
+    const { payUrl, txid } = await kit.getPayUrl(paymentRequired)
+    expect(api.transaction(txid)).toBeNull()
+    await signer.sign(payUrl, { outcome: 'pending' })
+    expect(api.transaction(txid)!.state).toEqual({ status: 'pending' })
+    expect(() => api.complete(txid, 'payload')).toThrow(/can not move/)
+
+    api.accept(txid)
+    const waiting = kit.waitForPaymentPayload(txid, fast)
+    api.complete(txid, 'cGF5bG9hZA')
+    await expect(waiting).resolves.toBe('cGF5bG9hZA')
+
+    const rejected = await kit.getPayUrl(paymentRequired)
+    await signer.sign(rejected.payUrl, {
+      outcome: { code: 4001, message: 'User rejected the payment' }
+    })
+    await expect(
+      kit.waitForPaymentPayload(rejected.txid, fast)
+    ).rejects.toBeInstanceOf(PaymentRejectedError)
+  })
+
+  it('signs payloads for decoded pay URLs', async () => {
+    const { api, signer } = setup()
+    const kit = new PayingKit({
+      fetch: createMockFetch({ api }),
+      maxUrlLength: 100,
+      messageStore: api
+    })
+
+    const { payUrl, txid } = await kit.getPayUrl(paymentRequired)
+    expect(payUrl).toContain('#ref=')
+    const { paymentPayload } = await signer.sign(payUrl)
+    const decoded = decodePaymentPayload(
+      await kit.waitForPaymentPayload(txid, fast)
+    )
+    expect(decoded.raw).toEqual(paymentPayload)
+    expect(decoded).toMatchObject({
+      kind: 'evm-exact',
+      accepted: paymentRequired.accepts[0],
+      payload: {
+        authorization: { value: '10000', to: paymentRequired.accepts[0]!.payTo }
+      }
+    })
+  })
+
+  it('settles each payment once', async () => {
+    const { api, facilitator, signer, fetch } = setup()
+    const kit = new PayingKit({ fetch })
+    const { payUrl } = await kit.getPayUrl(paymentRequired)
+    const { paymentPayload, requirements } = await signer.sign(payUrl)
+    const request = {
+      paymentPayload: paymentPayload!,
+      paymentRequirements: requirements
+    }
+
+    await expect(facilitator.settle(request)).resolves.toMatchObject({
+      success: true
+    })
+    await expect(facilitator.verify(request)).resolves.toMatchObject({
+      isValid: false,
+      invalidReason: 'invalid_transaction_state'
+    })
+    await expect(
+      createMockFetch({ api })('https://unknown.example.com')
+    ).rejects.toThrow(TypeError)
+    expect(api.transaction('unknown')).toBeNull()
+  })
+})
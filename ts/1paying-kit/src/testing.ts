@@ -0,0 +1,565 @@
+import { bytesToHex, randomBytes } from '@noble/hashes/utils'
+import type { SupportedKind } from './facilitator.js'
+import { encodePaymentSignatureHeader } from './header.js'
+import { API_ENDPOINT, PayingKit } from './index.js'
+import type { MessageStore, StoredMessage } from './message.js'
+import { networkNamespace } from './payload.js'
+import { parsePayUrl } from './payurl.js'
+import { hashPaymentPayload } from './replay.js'
+import type { FetchLike } from './transport.js'
+import type {
+  PaymentPayload,
+  PaymentPayloadV1,
+  PaymentRequirements,
+  PaymentRequirementsV1,
+  SettleResponse,
+  TransactionState,
+  VerifyResponse,
+  X402Request
+} from './types.js'
+import { bytesToBase64 } from './utils.js'
+import { validateX402Request } from './validate.js'
+
+/**
+ * A transaction of the MockPayingApi.
+ */
+export interface MockTransaction {
+  /** The transaction ID. */
+  txid: string
+  /** The current state, as served by the transaction API. */
+  state: TransactionState
+  /** The settle result submitted by the client, if any. */
+  settlement: { tx: string; status: string } | null
+}
+
+/**
+ * An in-memory fake of the 1pay.ing transaction API. Transactions move from `pending`
+ * to `accepted` and then to `completed` or `error`, driven by the test or a MockSigner.
+ * It also stores the messages of `#ref=` pay URLs.
+ */
+export class MockPayingApi implements MessageStore {
+  /** The base URL of the transaction API served by `handle`. */
+  readonly endpoint: string
+  #txs = new Map<string, MockTransaction>()
+  #messages = new Map<string, StoredMessage>()
+
+  /**
+   * @param endpoint The base URL of the transaction API.
+   */
+  constructor(endpoint = API_ENDPOINT) {
+    this.endpoint = endpoint.replace(/\/+$/, '')
+  }
+
+  /**
+   * Returns a transaction.
+   * @param txid The transaction ID.
+   * @returns A copy of the transaction, or null if the sign page has not submitted it.
+   */
+  transaction(txid: string): MockTransaction | null {
+    const tx = this.#txs.get(txid)
+    return tx ? structuredClone(tx) : null
+  }
+
+  /**
+   * Creates a `pending` transaction, as the sign page does when it opens a pay URL.
+   * @param txid The transaction ID.
+   */
+  submit(txid: string): void {
+    if (this.#txs.has(txid)) {
+      throw new Error(`Transaction ${txid} already exists`)
+    }
+    this.#txs.set(txid, {
+      txid,
+      state: { status: 'pending' },
+      settlement: null
+    })
+  }
+
+  /**
+   * Moves a `pending` transaction to `accepted`, as when the user has confirmed the payment.
+   * @param txid The transaction ID.
+   */
+  accept(txid: string): void {
+    this.#transition(txid, ['pending'], { status: 'accepted' })
+  }
+
+  /**
+   * Completes an `accepted` transaction with the signed payment payload.
+   * @param txid The transaction ID.
+   * @param result The payment payload, or its base64 encoding.
+   */
+  complete(
+    txid: string,
+    result: string | PaymentPayload<unknown> | PaymentPayloadV1<unknown>
+  ): void {
+    this.#transition(txid, ['accepted'], {
+      status: 'completed',
+      result:
+        typeof result === 'string'
+          ? result
+          : encodePaymentSignatureHeader(result)
+    })
+  }
+
+  /**
+   * Fails a `pending` or `accepted` transaction, e.g. when the user rejects the payment.
+   * @param txid The transaction ID.
+   * @param error The error reported to the client.
+   */
+  fail(txid: string, error: NonNullable<TransactionState['error']>): void {
+    this.#transition(txid, ['pending', 'accepted'], { status: 'error', error })
+  }
+
+  async put(message: StoredMessage): Promise<string> {
+    this.#messages.set(message.txid, { ...message })
+    return message.txid
+  }
+
+  async get(ref: string): Promise<StoredMessage | null> {
+    const message = this.#messages.get(ref)
+    return message ? { ...message } : null
+  }
+
+  /**
+   * Serves a request to the transaction API: `GET /{txid}`, `PUT /{txid}/status`
+   * and `PUT` or `GET /{txid}/msg`.
+   * @param request The request.
+   * @returns The response, or null if the request is not for this API.
+   */
+  async handle(request: Request): Promise<Response | null> {
+    if (!request.url.startsWith(`${this.endpoint}/`)) {
+      return null
+    }
+    const path = request.url.slice(this.endpoint.length + 1).split(/[?#]/)[0]!
+    const [txid = '', resource, ...rest] = path.split('/')
+    if (!txid || rest.length > 0) {
+      return new Response('Not Found', { status: 404 })
+    }
+
+    if (resource === 'msg') {
+      if (request.method === 'PUT') {
+        const { msg, enc } = await request.json()
+        await this.put({ txid, msg, enc })
+        return new Response(null, { status: 204 })
+      }
+      const message = await this.get(txid)
+      return message
+        ? Response.json({ msg: message.msg, enc: message.enc })
+        : new Response('Not Found', { status: 404 })
+    }
+
+    const tx = this.#txs.get(txid)
+    if (!tx) {
+      return new Response('Not Found', { status: 404 })
+    }
+    if (resource === 'status' && request.method === 'PUT') {
+      const { tx: hash, status } = await request.json()
+      tx.settlement = { tx: String(hash), status: String(status) }
+      return new Response(null, { status: 204 })
+    }
+    if (resource === undefined && request.method === 'GET') {
+      return Response.json(tx.state)
+    }
+    return new Response('Method Not Allowed', { status: 405 })
+  }
+
+  #transition(
+    txid: string,
+    from: TransactionState['status'][],
+    state: TransactionState
+  ): void {
+    const tx = this.#txs.get(txid)
+    if (!tx) {
+      throw new Error(`Transaction ${txid} does not exist`)
+    }
+    if (!from.includes(tx.state.status)) {
+      throw new Error(
+        `Transaction ${txid} can not move from ${tx.state.status} to ${state.status}`
+      )
+    }
+    tx.state = state
+  }
+}
+
+/**
+ * How a MockSigner responds to a pay URL.
+ */
+export interface MockSignerOptions {
+  /**
+   * The payer address put into EVM authorizations.
+   * @default 0x1111111111111111111111111111111111111111
+   */
+  payer?: string
+  /**
+   * Chooses the payment option to pay.
+   * @default the first option
+   */
+  select?: (accepts: (PaymentRequirements | PaymentRequirementsV1)[]) => number
+  /**
+   * Creates the scheme-specific payload for the chosen option.
+   * @default a well-formed payload for EVM, Solana and ICP networks with random signatures
+   */
+  payload?: (
+    requirements: PaymentRequirements | PaymentRequirementsV1,
+    payer: string
+  ) => unknown
+  /**
+   * Where the transaction ends: signed (`completed`), left at `pending` or `accepted`
+   * to simulate a user who never finishes, or failed with an error.
+   * @default 'completed'
+   */
+  outcome?:
+    | 'completed'
+    | 'pending'
+    | 'accepted'
+    | NonNullable<TransactionState['error']>
+}
+
+/**
+ * The result of `MockSigner.sign`.
+ */
+export interface MockSignature {
+  /** The transaction ID of the pay URL. */
+  txid: string
+  /** The chosen payment option. */
+  requirements: PaymentRequirements | PaymentRequirementsV1
+  /** The signed payment payload, or null unless the outcome is `completed`. */
+  paymentPayload: PaymentPayload<unknown> | PaymentPayloadV1<unknown> | null
+}
+
+/**
+ * A scriptable stand-in for the user on the 1pay.ing sign page. It decodes and verifies
+ * pay URLs and drives their transactions in a MockPayingApi.
+ */
+export class MockSigner {
+  #api: MockPayingApi
+  #options: MockSignerOptions
+
+  /**
+   * @param api The transaction API to report to.
+   * @param options The default responses, overridable per pay URL.
+   */
+  constructor(api: MockPayingApi, options: MockSignerOptions = {}) {
+    this.#api = api
+    this.#options = options
+  }
+
+  /**
+   * Signs a pay URL, e.g. as the `openPayUrl` option of `PayingKit.fetch`.
+   * @param payUrl The pay URL created by `PayingKit.getPayUrl`.
+   * @param options Overrides the default responses.
+   * @returns The transaction ID, the chosen option and the signed payload.
+   * @throws {InvalidPayUrlError} If the pay URL is malformed.
+   * @throws {InvalidSignatureError} If the message of the pay URL was tampered with.
+   */
+  async sign(
+    payUrl: string,
+    options: MockSignerOptions = {}
+  ): Promise<MockSignature> {
+    const opts = { ...this.#options, ...options }
+    const parsed = await parsePayUrl(payUrl, { messageStore: this.#api })
+    const required = PayingKit.verifyMessage(parsed).payload
+    const accepts: (PaymentRequirements | PaymentRequirementsV1)[] =
+      required.accepts
+    const requirements = accepts[opts.select ? opts.select(accepts) : 0]
+    if (!requirements) {
+      throw new Error(`No payment option selected for ${parsed.txid}`)
+    }
+
+    const txid = parsed.txid
+    const outcome = opts.outcome ?? 'completed'
+    const signature: MockSignature = {
+      txid,
+      requirements,
+      paymentPayload: null
+    }
+    this.#api.submit(txid)
+    if (typeof outcome === 'object') {
+      this.#api.fail(txid, outcome)
+      return signature
+    }
+    if (outcome === 'pending') {
+      return signature
+    }
+    this.#api.accept(txid)
+    if (outcome === 'accepted') {
+      return signature
+    }
+
+    const payer = opts.payer ?? `0x${'11'.repeat(20)}`
+    const payload = (opts.payload ?? mockSchemePayload)(requirements, payer)
+    signature.paymentPayload =
+      'amount' in requirements
+        ? {
+            x402Version: required.x402Version,
+            ...('resource' in required && required.resource
+              ? { resource: required.resource }
+              : {}),
+            accepted: requirements,
+            payload
+          }
+        : {
+            x402Version: required.x402Version,
+            scheme: requirements.scheme,
+            network: requirements.network,
+            payload
+          }
+    this.#api.complete(txid, signature.paymentPayload)
+    return signature
+  }
+}
+
+/**
+ * Options for a MockFacilitator.
+ */
+export interface MockFacilitatorOptions {
+  /**
+   * The base URL served by `handle`.
+   * @default https://facilitator.mock
+   */
+  url?: string
+  /**
+   * The kinds reported by `/supported`.
+   * @default []
+   */
+  kinds?: SupportedKind[]
+  /**
+   * Replaces the default verification, which checks the shape of the request,
+   * that the payload matches the requirements and that it was not settled before.
+   */
+  verify?: (
+    request: X402Request<unknown>
+  ) => VerifyResponse | Promise<VerifyResponse>
+  /**
+   * Replaces the default settlement, which verifies the payment and returns a random transaction hash.
+   */
+  settle?: (
+    request: X402Request<unknown>
+  ) => SettleResponse | Promise<SettleResponse>
+}
+
+/**
+ * A request received by a MockFacilitator.
+ */
+export interface MockFacilitatorRequest {
+  /** The called endpoint. */
+  endpoint: 'verify' | 'settle'
+  /** The request body, including the `x402Version` and `paymentHeader` of older clients. */
+  body: X402Request<unknown> & { x402Version?: number; paymentHeader?: string }
+  /** The response sent. */
+  response: VerifyResponse | SettleResponse
+}
+
+/**
+ * An in-memory fake of an x402 facilitator with `/verify`, `/settle` and `/supported` endpoints.
+ * Each payment payload can be settled once.
+ */
+export class MockFacilitator {
+  /** The base URL served by `handle`. */
+  readonly url: string
+  /** The verify and settle requests received, oldest first. */
+  readonly requests: MockFacilitatorRequest[] = []
+  #kinds: SupportedKind[]
+  #verify: MockFacilitatorOptions['verify']
+  #settle: MockFacilitatorOptions['settle']
+  #settled = new Set<string>()
+
+  /**
+   * @param options The URL, supported kinds and replacement behaviors.
+   */
+  constructor(options: MockFacilitatorOptions = {}) {
+    this.url = (options.url ?? 'https://facilitator.mock').replace(/\/+$/, '')
+    this.#kinds = options.kinds ?? []
+    this.#verify = options.verify
+    this.#settle = options.settle
+  }
+
+  /**
+   * Verifies a payment.
+   * @param request The payment payload and requirements.
+   * @returns The verify response.
+   */
+  async verify(request: X402Request<unknown>): Promise<VerifyResponse> {
+    if (this.#verify) {
+      return this.#verify(request)
+    }
+
+    const checked = validateX402Request(request)
+    if (!checked.ok) {
+      return { isValid: false, invalidReason: 'invalid_payload' }
+    }
+    const { paymentPayload, paymentRequirements } = request
+    const chosen =
+      'accepted' in paymentPayload ? paymentPayload.accepted : paymentPayload
+    const payer = payerOf(paymentPayload)
+    if (chosen.scheme !== paymentRequirements.scheme) {
+      return { isValid: false, invalidReason: 'invalid_scheme', ...payer }
+    }
+    if (chosen.network !== paymentRequirements.network) {
+      return { isValid: false, invalidReason: 'invalid_network', ...payer }
+    }
+    if (this.#settled.has(hashPaymentPayload(paymentPayload))) {
+      return {
+        isValid: false,
+        invalidReason: 'invalid_transaction_state',
+        ...payer
+      }
+    }
+    return { isValid: true, ...payer }
+  }
+
+  /**
+   * Settles a payment.
+   * @param request The payment payload and requirements.
+   * @returns The settle response.
+   */
+  async settle(request: X402Request<unknown>): Promise<SettleResponse> {
+    if (this.#settle) {
+      return this.#settle(request)
+    }
+
+    const verified = await this.verify(request)
+    const network = request.paymentRequirements.network
+    const payer = verified.payer ? { payer: verified.payer } : {}
+    if (!verified.isValid) {
+      return {
+        success: false,
+        errorReason: verified.invalidReason ?? 'invalid_payload',
+        transaction: '',
+        network,
+        ...payer
+      }
+    }
+    this.#settled.add(hashPaymentPayload(request.paymentPayload))
+    return {
+      success: true,
+      transaction: `0x${bytesToHex(randomBytes(32))}`,
+      network,
+      ...payer
+    }
+  }
+
+  /**
+   * Serves a request to the facilitator: `POST /verify`, `POST /settle` and `GET /supported`.
+   * @param request The request.
+   * @returns The response, or null if the request is not for this facilitator.
+   */
+  async handle(request: Request): Promise<Response | null> {
+    if (!request.url.startsWith(`${this.url}/`)) {
+      return null
+    }
+    const endpoint = request.url.slice(this.url.length + 1).split(/[?#]/)[0]
+    if (endpoint === 'supported' && request.method === 'GET') {
+      return Response.json({ kinds: this.#kinds })
+    }
+    if (
+      (endpoint !== 'verify' && endpoint !== 'settle') ||
+      request.method !== 'POST'
+    ) {
+      return new Response('Not Found', { status: 404 })
+    }
+
+    let body: MockFacilitatorRequest['body']
+    try {
+      body = await request.json()
+    } catch {
+      return Response.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+    const response =
+      endpoint === 'verify' ? await this.verify(body) : await this.settle(body)
+    this.requests.push({ endpoint, body, response })
+    return Response.json(response)
+  }
+}
+
+/**
+ * Options for `createMockFetch`.
+ */
+export interface MockFetchOptions {
+  /** The fake transaction API. */
+  api?: MockPayingApi
+  /** The fake facilitators. */
+  facilitators?: MockFacilitator[]
+  /**
+   * Handles all other requests, e.g. a merchant built with `requirePayment`.
+   * @default rejects with a TypeError, like fetch does for unreachable hosts
+   */
+  fallback?: FetchLike
+}
+
+/**
+ * Creates a fetch function that routes the requests of the kit to the fakes,
+ * for the `fetch` option of a PayingKit or FacilitatorClient, or to replace `globalThis.fetch`.
+ * @param options The fakes and the handler of all other requests.
+ * @returns The fetch function.
+ */
+export function createMockFetch(options: MockFetchOptions): FetchLike {
+  const handlers = [
+    ...(options.api ? [options.api] : []),
+    ...(options.facilitators ?? [])
+  ]
+  return async (input, init) => {
+    const request = new Request(input, init)
+    for (const handler of handlers) {
+      const res = await handler.handle(request.clone())
+      if (res) {
+        return res
+      }
+    }
+    if (options.fallback) {
+      return options.fallback(request)
+    }
+    throw new TypeError(`Unexpected request to ${request.url}`)
+  }
+}
+
+function mockSchemePayload(
+  requirements: PaymentRequirements | PaymentRequirementsV1,
+  payer: string
+): unknown {
+  const value =
+    'amount' in requirements
+      ? requirements.amount
+      : requirements.maxAmountRequired
+  const now = Date.now()
+  switch (networkNamespace(requirements.network)) {
+    case 'eip155':
+      return {
+        signature: `0x${bytesToHex(randomBytes(65))}`,
+        authorization: {
+          from: payer,
+          to: requirements.payTo,
+          value,
+          validAfter: '0',
+          validBefore: String(
+            Math.floor(now / 1000) + requirements.maxTimeoutSeconds
+          ),
+          nonce: `0x${bytesToHex(randomBytes(32))}`
+        }
+      }
+    case 'solana':
+      return { transaction: bytesToBase64(randomBytes(128)) }
+    case 'icp':
+      return {
+        signature: bytesToBase64(randomBytes(64)),
+        authorization: {
+          scheme: requirements.scheme,
+          asset: requirements.asset,
+          to: requirements.payTo,
+          value,
+          expiresAt: now + requirements.maxTimeoutSeconds * 1000,
+          nonce: now
+        }
+      }
+    default:
+      return { signature: `0x${bytesToHex(randomBytes(64))}` }
+  }
+}
+
+function payerOf(
+  payload: PaymentPayload<unknown> | PaymentPayloadV1<unknown>
+): { payer?: string } {
+  const auth = (payload.payload as { authorization?: { from?: unknown } })
+    ?.authorization
+  return typeof auth?.from === 'string' ? { payer: auth.from } : {}
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import { PayingKit, TransportError } from './index.js'
+import {
+  PollingTransport,
+  SseTransport,
+  WebSocketTransport,
+  type FetchLike
+} from './transport.js'
+import type { TransactionState } from './types.js'
+
+const fast = { initialDelayMs: 0, pollIntervalMs: 1, jitter: 0 }
+
+async function collect(
+  states: AsyncIterable<TransactionState>
+): Promise<string[]> {
+  const rt: string[] = []
+  for await (const state of states) {
+    rt.push(state.status)
+  }
+  return rt
+}
+
+function eventStream(chunks: string[]): Response {
+  const encoder = new TextEncoder()
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(encoder.encode(chunk))
+        }
+        controller.close()
+      }
+    }),
+    { headers: { 'Content-Type': 'text/event-stream' } }
+  )
+}
+
+describe('SseTransport', () => {
+  it('streams states from Server-Sent Events', async () => {
+    const requests: (string | null)[] = []
+    const fetch: FetchLike = async (_, init) => {
+      requests.push(new Headers(init?.headers).get('Accept'))
+      return eventStream([
+        ': keep-alive\n\ndata: {"status":"pending"}\n\n',
+        'event: state\ndata: {"status":"acc',
+        'epted"}\n\ndata: {"status":"completed","result":"cGF5bG9hZA"}\n\n'
+      ])
+    }
+    const transport = new SseTransport('https://api.example.com/tx', fetch)
+    expect(await collect(transport.watch('tx', fast))).toEqual([
+      'pending',
+      'accepted',
+      'completed'
+    ])
+    expect(requests).toEqual(['text/event-stream'])
+  })
+
+  it('rejects malformed states with a TransportError', async () => {
+    const sse = new SseTransport('https://api.example.com/tx', async () =>
+      eventStream(['data: {"status":"pending"}\n\ndata: {"status\n\n'])
+    )
+    await expect(collect(sse.watch('tx', fast))).rejects.toBeInstanceOf(
+      TransportError
+    )
+
+    const polling = new PollingTransport(
+      'https://api.example.com/tx',
+      async () => new Response('<html>', { status: 200 })
+    )
+    await expect(collect(polling.watch('tx', fast))).rejects.toMatchObject({
+      code: 'TRANSPORT_ERROR',
+      status: 200,
+      cause: expect.any(SyntaxError)
+    })
+  })
+
+  it('rejects states of an unknown shape with a TransportError', async () => {
+    for (const body of ['{}', '"x"', 'null', '{"status":"done"}']) {
+      const polling = new PollingTransport(
+        'https://api.example.com/tx',
+        async () => new Response(body, { status: 200 })
+      )
+      await expect(collect(polling.watch('tx', fast))).rejects.toMatchObject({
+        code: 'TRANSPORT_ERROR',
+        message: `Invalid transaction state: ${body}`
+      })
+    }
+  })
+
+  it('falls back to polling when the server answers with JSON', async () => {
+    const responses = [
+      Response.json({ status: 'pending' }),
+      Response.json({ status: 'accepted' }),
+      Response.json({ status: 'completed', result: 'cGF5bG9hZA' })
+    ]
+    const fetch: FetchLike = async () => responses.shift()!
+    const transport = new SseTransport('https://api.example.com/tx', fetch)
+    expect(await collect(transport.watch('tx', fast))).toEqual([
+      'pending',
+      'accepted',
+      'completed'
+    ])
+  })
+})
+
+describe('WebSocketTransport', () => {
+  class FakeWebSocket {
+    static urls: string[] = []
+    static messages = [
+      '{"status":"accepted"}',
+      '{"status":"completed","result":"cGF5bG9hZA"}'
+    ]
+    onopen: (() => void) | null = null
+    onmessage: ((ev: { data: string }) => void) | null = null
+    onclose: (() => void) | null = null
+
+    constructor(url: string) {
+      FakeWebSocket.urls.push(url)
+      const messages = new.target.messages
+      setTimeout(() => {
+        this.onopen?.()
+        for (const data of messages) {
+          this.onmessage?.({ data })
+        }
+      }, 1)
+    }
+
+    close() {}
+  }
+
+  it('streams states from a WebSocket', async () => {
+    const transport = new WebSocketTransport(
+      'https://api.example.com/tx',
+      new PollingTransport('https://api.example.com/tx', fetch),
+      FakeWebSocket as any
+    )
+    expect(await collect(transport.watch('tx1', fast))).toEqual([
+      'accepted',
+      'completed'
+    ])
+    expect(FakeWebSocket.urls).toEqual(['wss://api.example.com/tx/tx1/ws'])
+  })
+
+  it('rejects malformed messages with a TransportError', async () => {
+    class MalformedWebSocket extends FakeWebSocket {
+      static override messages = ['{"status":"accepted"}', 'not json']
+    }
+    const transport = new WebSocketTransport(
+      'https://api.example.com/tx',
+      new PollingTransport('https://api.example.com/tx', fetch),
+      MalformedWebSocket as any
+    )
+    await expect(collect(transport.watch('tx2', fast))).rejects.toBeInstanceOf(
+      TransportError
+    )
+  })
+
+  it('falls back to polling without WebSocket support', async () => {
+    const kit = new PayingKit({
+      transport: new WebSocketTransport(
+        'https://api.example.com/tx',
+        new PollingTransport('https://api.example.com/tx', async () =>
+          Response.json({ status: 'completed', result: 'cGF5bG9hZA' })
+        ),
+        undefined
+      )
+    })
+    expect(await kit.waitForPaymentPayload('tx', fast)).toBe('cGF5bG9hZA')
+  })
+})
+
+describe('PayingKit#waitForPaymentPayload', () => {
+  it('times out while the transport is waiting', async () => {
+    const kit = new PayingKit({
+      fetch: async () => Response.json({ status: 'pending' })
+    })
+    await expect(
+      kit.waitForPaymentPayload('tx', { ...fast, timeoutMs: 20 })
+    ).rejects.toThrow('Timeout waiting for payment payload')
+  })
+})
@@ -0,0 +1,432 @@
+import {
+  backoffDelay,
+  parseRetryAfter,
+  sleep,
+  type BackoffOptions
+} from './backoff.js'
+import { TransportError } from './errors.js'
+import type { TransactionState } from './types.js'
+
+/**
+ * A fetch-compatible function used by the PayingKit for all HTTP requests.
+ */
+export type FetchLike = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>
+
+/**
+ * Options for watching a transaction.
+ */
+export interface WatchOptions extends BackoffOptions {
+  /**
+   * Initial delay in milliseconds before the first request.
+   * @default 5000 (5 seconds)
+   */
+  initialDelayMs?: number
+  /**
+   * An AbortSignal to stop watching.
+   */
+  signal?: AbortSignal | undefined
+  /**
+   * The number of consecutive failed requests after which watching gives up.
+   * @default 3
+   */
+  maxRetries?: number
+}
+
+/**
+ * A transport that streams the state of a 1pay.ing transaction.
+ */
+export interface TransactionTransport {
+  /**
+   * Watches a transaction and yields its state whenever it is known or changes.
+   * The iteration ends after a `completed` or `error` state has been yielded.
+   * @param txid The transaction ID to watch.
+   * @param options Options for watching.
+   */
+  watch(txid: string, options?: WatchOptions): AsyncIterable<TransactionState>
+}
+
+/**
+ * The transports built into the PayingKit:
+ * - `polling`: polls the transaction API with exponential backoff.
+ * - `sse`: streams Server-Sent Events, falling back to polling if the server does not support them.
+ * - `websocket`: streams over a WebSocket, falling back to polling if it can not connect.
+ */
+export type TransportKind = 'polling' | 'sse' | 'websocket'
+
+/**
+ * Watches transactions by polling `${apiEndpoint}/${txid}`.
+ */
+export class PollingTransport implements TransactionTransport {
+  #apiEndpoint: string
+  #fetch: FetchLike
+
+  /**
+   * @param apiEndpoint The base URL of the transaction API.
+   * @param fetch The fetch implementation.
+   */
+  constructor(apiEndpoint: string, fetch: FetchLike) {
+    this.#apiEndpoint = apiEndpoint
+    this.#fetch = fetch
+  }
+
+  async *watch(
+    txid: string,
+    options: WatchOptions = {}
+  ): AsyncGenerator<TransactionState> {
+    let requestFailed = 0
+    let backoffAttempt = 0
+    let lastStatus: TransactionState['status'] | null = null
+    const maxRetries = options.maxRetries ?? 3
+    const signal = options.signal
+    const url = `${this.#apiEndpoint}/${txid}`
+
+    // Initial delay to allow payment processing to start
+    await sleep(options.initialDelayMs ?? 5000, signal)
+
+    while (true) {
+      backoffAttempt += 1
+      let response: Response | null = null
+      let failure = ''
+      let cause: unknown
+      try {
+        response = await this.#fetch(url, { signal })
+      } catch (err) {
+        if (signal?.aborted) {
+          throw signal.reason
+        }
+        failure = `network error: ${String(err)}`
+        cause = err
+      }
+
+      if (response?.status === 200) {
+        requestFailed = 0
+        const data = parseState(await response.text(), response.status)
+        yield data
+        if (isTerminal(data)) {
+          return
+        }
+
+        if (data.status !== lastStatus) {
+          // Poll quickly again after a state change, e.g. once the user has signed.
+          lastStatus = data.status
+          backoffAttempt = 1
+        }
+      } else if (response?.status === 404) {
+        // The transaction is not known to the API until the sign page submits it.
+        requestFailed = 0
+        yield { status: 'pending' }
+      } else {
+        if (response) {
+          const text = await response.text()
+          failure = `status ${response.status}: ${text}`
+          if (response.status !== 429 && response.status < 500) {
+            throw new TransportError(
+              `Failed to fetch transaction status, ${failure}`,
+              response.status
+            )
+          }
+        }
+
+        requestFailed += 1
+        if (requestFailed >= maxRetries) {
+          throw new TransportError(
+            `Failed to fetch transaction status after ${requestFailed} attempts, ${failure}`,
+            response?.status ?? null,
+            { cause }
+          )
+        }
+        yield { status: 'pending' }
+      }
+
+      const delay =
+        parseRetryAfter(response?.headers.get('Retry-After')) ??
+        backoffDelay(backoffAttempt, options)
+      await sleep(delay, signal)
+    }
+  }
+}
+
+/**
+ * Watches transactions over Server-Sent Events from `${apiEndpoint}/${txid}`,
+ * requested with `Accept: text/event-stream`. Each event carries a JSON `TransactionState`.
+ * Falls back to another transport if the server does not stream events.
+ */
+export class SseTransport implements TransactionTransport {
+  #apiEndpoint: string
+  #fetch: FetchLike
+  #fallback: TransactionTransport
+
+  /**
+   * @param apiEndpoint The base URL of the transaction API.
+   * @param fetch The fetch implementation.
+   * @param fallback The transport to use if the server does not support SSE.
+   */
+  constructor(
+    apiEndpoint: string,
+    fetch: FetchLike,
+    fallback: TransactionTransport = new PollingTransport(apiEndpoint, fetch)
+  ) {
+    this.#apiEndpoint = apiEndpoint
+    this.#fetch = fetch
+    this.#fallback = fallback
+  }
+
+  async *watch(
+    txid: string,
+    options: WatchOptions = {}
+  ): AsyncGenerator<TransactionState> {
+    const signal = options.signal
+    await sleep(options.initialDelayMs ?? 5000, signal)
+
+    let response: Response | null = null
+    try {
+      response = await this.#fetch(`${this.#apiEndpoint}/${txid}`, {
+        headers: { Accept: 'text/event-stream' },
+        signal
+      })
+    } catch (err) {
+      if (signal?.aborted) {
+        throw signal.reason
+      }
+    }
+
+    const contentType = response?.headers.get('Content-Type') ?? ''
+    if (
+      response?.ok &&
+      response.body &&
+      contentType.includes('text/event-stream')
+    ) {
+      for await (const data of readEventStream(response.body)) {
+        const state = parseState(data, response.status)
+        yield state
+        if (isTerminal(state)) {
+          return
+        }
+      }
+      // The stream ended before the transaction did, keep watching with the fallback.
+      yield* this.#fallback.watch(txid, { ...options, initialDelayMs: 0 })
+      return
+    }
+
+    if (response?.status === 200 && contentType.includes('application/json')) {
+      // The server answered with a plain state, use it as the first poll.
+      const state = parseState(await response.text(), response.status)
+      yield state
+      if (isTerminal(state)) {
+        return
+      }
+    } else {
+      await response?.body?.cancel()
+    }
+
+    yield* this.#fallback.watch(txid, {
+      ...options,
+      initialDelayMs: backoffDelay(1, options)
+    })
+  }
+}
+
+/**
+ * Watches transactions over a WebSocket at `${apiEndpoint}/${txid}/ws` (with the `ws`/`wss` scheme).
+ * Each message carries a JSON `TransactionState`.
+ * Falls back to another transport if the socket can not be opened or closes early.
+ */
+export class WebSocketTransport implements TransactionTransport {
+  #apiEndpoint: string
+  #fallback: TransactionTransport
+  #WebSocket: typeof WebSocket | undefined
+
+  /**
+   * @param apiEndpoint The base URL of the transaction API.
+   * @param fallback The transport to use if the socket can not be used.
+   * @param webSocket The WebSocket constructor to use.
+   */
+  constructor(
+    apiEndpoint: string,
+    fallback: TransactionTransport,
+    webSocket: typeof WebSocket | undefined = globalThis.WebSocket
+  ) {
+    this.#apiEndpoint = apiEndpoint
+    this.#fallback = fallback
+    this.#WebSocket = webSocket
+  }
+
+  async *watch(
+    txid: string,
+    options: WatchOptions = {}
+  ): AsyncGenerator<TransactionState> {
+    const signal = options.signal
+    await sleep(options.initialDelayMs ?? 5000, signal)
+
+    if (!this.#WebSocket) {
+      yield* this.#fallback.watch(txid, { ...options, initialDelayMs: 0 })
+      return
+    }
+
+    const url = `${this.#apiEndpoint.replace(/^http/, 'ws')}/${txid}/ws`
+    const socket = new this.#WebSocket(url)
+    const queue: (TransactionState | TransportError | null)[] = []
+    let opened = false
+    let wake: (() => void) | null = null
+    const notify = () => {
+      wake?.()
+      wake = null
+    }
+    const onAbort = () => socket.close()
+
+    socket.onopen = () => {
+      opened = true
+    }
+    socket.onmessage = (ev: MessageEvent) => {
+      try {
+        queue.push(parseState(String(ev.data), null))
+      } catch (err) {
+        queue.push(err as TransportError)
+      }
+      notify()
+    }
+    socket.onclose = () => {
+      queue.push(null)
+      notify()
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      while (true) {
+        if (signal?.aborted) {
+          throw signal.reason
+        }
+
+        const state = queue.shift()
+        if (state === undefined) {
+          await new Promise<void>((resolve) => (wake = resolve))
+          continue
+        }
+        if (state === null) {
+          break
+        }
+        if (state instanceof TransportError) {
+          throw state
+        }
+
+        yield state
+        if (isTerminal(state)) {
+          return
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+      socket.close()
+    }
+
+    // The socket failed to open or closed before the transaction ended.
+    yield* this.#fallback.watch(txid, {
+      ...options,
+      initialDelayMs: opened ? 0 : backoffDelay(1, options)
+    })
+  }
+}
+
+/**
+ * Creates one of the built-in transports.
+ * @param kind The kind of transport.
+ * @param apiEndpoint The base URL of the transaction API.
+ * @param fetch The fetch implementation.
+ * @returns The transport.
+ */
+export function createTransport(
+  kind: TransportKind,
+  apiEndpoint: string,
+  fetch: FetchLike
+): TransactionTransport {
+  const polling = new PollingTransport(apiEndpoint, fetch)
+  switch (kind) {
+    case 'polling':
+      return polling
+    case 'sse':
+      return new SseTransport(apiEndpoint, fetch, polling)
+    case 'websocket':
+      return new WebSocketTransport(apiEndpoint, polling)
+  }
+}
+
+const TRANSACTION_STATUSES = ['pending', 'accepted', 'completed', 'error']
+
+function parseState(text: string, status: number | null): TransactionState {
+  let state: unknown
+  try {
+    state = JSON.parse(text)
+  } catch (err) {
+    throw new TransportError(
+      `Invalid transaction state: ${text.slice(0, 100)}`,
+      status,
+      { cause: err }
+    )
+  }
+  if (!isTransactionState(state)) {
+    throw new TransportError(
+      `Invalid transaction state: ${text.slice(0, 100)}`,
+      status
+    )
+  }
+  return state
+}
+
+function isTransactionState(value: unknown): value is TransactionState {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+  // The API may send null for absent fields.
+  const { status, result, error } = value as Record<string, unknown>
+  return (
+    TRANSACTION_STATUSES.includes(status as string) &&
+    (result == null || typeof result === 'string') &&
+    (error == null ||
+      (typeof error === 'object' &&
+        typeof (error as { message?: unknown }).message === 'string'))
+  )
+}
+
+function isTerminal(state: TransactionState): boolean {
+  return (
+    (state.status === 'completed' && !!state.result) || state.status === 'error'
+  )
+}
+
+async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let data: string[] = []
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        return
+      }
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        if (line === '') {
+          // A blank line dispatches the event.
+          if (data.length > 0) {
+            yield data.join('\n')
+            data = []
+          }
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''))
+        }
+        // Comments, `event`, `id` and `retry` fields are not used.
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {})
+  }
+}
@@ -1,3 +1,15 @@
+import { InvalidRequirementsError } from './errors.js'
+import {
+  formatIssues,
+  validateMessage,
+  validateMessageCompact,
+  validatePaymentRequirements,
+  validatePaymentRequirementsCompact,
+  validatePaymentRequirementsCompactV1,
+  validatePaymentRequirementsV1,
+  type ValidationResult
+} from './validate.js'
+
 /**
  * Represents the state of a 1Pay.ing payment transaction.
  */
@@ -40,6 +52,7 @@ export interface MessageCompact<TC> {
  * Converts a compact or standard message into a standard `Message<PaymentRequirementsResponse>`.
  * @param msg The message to convert.
  * @returns The standard message.
+ * @throws {InvalidRequirementsError} If the message is malformed.
  */
 export function toMessage(
   msg:
@@ -49,9 +62,12 @@ export function toMessage(
     | Message<PaymentRequired>
 ): Message<PaymentRequirementsResponse | PaymentRequired> {
   if ('pubkey' in msg && 'nonce' in msg && 'payload' in msg) {
+    assertValid(validateMessage(msg), 'message')
     return msg
   }
 
+  assertValid(validateMessageCompact(msg), 'compact message')
+
   let rt: Message<PaymentRequirementsResponse> = {
     pubkey: msg.pk,
     nonce: msg.n,
@@ -134,6 +150,15 @@ export function toMessageCompact(
   return rt
 }
 
+function assertValid(result: ValidationResult<unknown>, what: string): void {
+  if (!result.ok) {
+    throw new InvalidRequirementsError(
+      `Invalid ${what}: ${formatIssues(result.issues)}`,
+      result.issues
+    )
+  }
+}
+
 /**
  * The x402 requirements for a payment.
  */
@@ -260,6 +285,7 @@ export interface PaymentRequirementsCompactV1 {
  * Converts a compact or standard payment requirement into a standard `PaymentRequirements`.
  * @param req The payment requirement to convert.
  * @returns The standard `PaymentRequirements` object.
+ * @throws {InvalidRequirementsError} If the payment requirement is malformed.
  */
 export function toPaymentRequirements(
   req:
@@ -269,10 +295,20 @@ export function toPaymentRequirements(
     | PaymentRequirementsV1
 ): PaymentRequirements | PaymentRequirementsV1 {
   if ('scheme' in req) {
+    assertValid(
+      'maxAmountRequired' in req
+        ? validatePaymentRequirementsV1(req)
+        : validatePaymentRequirements(req),
+      'payment requirements'
+    )
     return req
   }
 
   if ('mar' in req) {
+    assertValid(
+      validatePaymentRequirementsCompactV1(req),
+      'compact payment requirements'
+    )
     const obj: PaymentRequirementsV1 = {
       scheme: req.s,
       network: req.n,
@@ -295,6 +331,10 @@ export function toPaymentRequirements(
     return obj
   }
 
+  assertValid(
+    validatePaymentRequirementsCompact(req),
+    'compact payment requirements'
+  )
   const obj: PaymentRequirements = {
     scheme: req.s,
     network: req.n,
@@ -435,6 +475,71 @@ export interface PaymentPayload<T> {
   extensions?: Extensions
 }
 
+/**
+ * The EIP-3009 `transferWithAuthorization` parameters signed by the payer.
+ */
+export interface Eip3009Authorization {
+  /** The payer address. */
+  from: string
+  /** The recipient address. */
+  to: string
+  /** The amount in atomic token units. */
+  value: string
+  /** The Unix time in seconds after which the authorization is valid. */
+  validAfter: string
+  /** The Unix time in seconds before which the authorization is valid. */
+  validBefore: string
+  /** A unique 32 bytes nonce as a hex string. */
+  nonce: string
+}
+
+/**
+ * The payload of the `exact` scheme on EVM networks.
+ */
+export interface EvmExactPayload {
+  /** The EIP-712 signature of the authorization as a hex string. */
+  signature: string
+  /** The signed EIP-3009 authorization. */
+  authorization: Eip3009Authorization
+}
+
+/**
+ * The payload of the `exact` scheme on Solana networks.
+ */
+export interface SolanaPayload {
+  /** The base64 encoded transaction, partially signed by the payer. */
+  transaction: string
+}
+
+/**
+ * The transfer authorized by the payer on ICP networks. The payer approves
+ * the facilitator through ICRC-2, which then calls `icrc2_transfer_from`.
+ */
+export interface IcpAuthorization {
+  /** The payment scheme identifier. */
+  scheme: string
+  /** The token ledger canister ID. */
+  asset: string
+  /** The recipient principal. */
+  to: string
+  /** The amount in atomic token units. */
+  value: string
+  /** The Unix time in milliseconds at which the authorization expires. */
+  expiresAt: number
+  /** A number used once to prevent replay attacks. */
+  nonce: number
+}
+
+/**
+ * The payload of the `exact` scheme on ICP networks.
+ */
+export interface IcpPayload {
+  /** The signature of the authorization by the payer, base64 encoded. */
+  signature: string
+  /** The signed transfer authorization. */
+  authorization: IcpAuthorization
+}
+
 /** Represents the verification and settlement request structure for X402 payments.
  * @template T The type of the payment payload.
  */
@@ -469,6 +574,11 @@ export interface SettleResponse {
   network: string
   /** The address of the payer. */
   payer?: string
+  /**
+   * The amount charged in atomic token units. For the `upto` scheme this is the consumed
+   * amount, at most the authorized maximum; if omitted, the required amount was charged.
+   */
+  amount?: string
 }
 
 /**
@@ -7,7 +7,7 @@ export function bytesToBase64(bytes: Uint8Array): string {
   if (typeof (bytes as any).toBase64 === 'function') {
     return (bytes as any).toBase64()
   }
-  return globalThis.btoa(String.fromCharCode(...bytes))
+  return globalThis.btoa(bytesToBinaryString(bytes))
 }
 
 /**
@@ -21,7 +21,7 @@ export function bytesToBase64Url(bytes: Uint8Array): string {
   }
 
   return globalThis
-    .btoa(String.fromCharCode(...bytes))
+    .btoa(bytesToBinaryString(bytes))
     .replaceAll('+', '-')
     .replaceAll('/', '_')
     .replaceAll('=', '')
@@ -46,19 +46,30 @@ export function base64ToBytes(str: string): Uint8Array {
 }
 
 /**
- * Decodes a base64 or base64url encoded string to a regular string.
+ * Decodes a base64 or base64url encoded UTF-8 string to a regular string.
  * @param str The base64 or base64url encoded string.
  * @returns The decoded string.
  */
 export function base64ToString(str: string): string {
-  return globalThis.atob(str.replaceAll('-', '+').replaceAll('_', '/'))
+  return new TextDecoder().decode(base64ToBytes(str))
 }
 
 /**
- * Encodes a regular string to a base64 string.
+ * Encodes a regular string to a base64 string of its UTF-8 bytes.
  * @param str The string to encode.
  * @returns The base64 encoded string.
  */
 export function stringToBase64(str: string): string {
-  return globalThis.btoa(str)
+  return bytesToBase64(new TextEncoder().encode(str))
+}
+
+// Large arrays can not be spread into `String.fromCharCode`, it overflows the stack.
+const CHUNK_SIZE = 0x8000
+
+function bytesToBinaryString(bytes: Uint8Array): string {
+  let str = ''
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    str += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE))
+  }
+  return str
 }
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { InvalidRequirementsError } from './errors.js'
+import { payingKit } from './index.js'
+import {
+  toMessage,
+  toPaymentRequirements,
+  type PaymentRequirements
+} from './types.js'
+import {
+  validatePaymentPayload,
+  validatePaymentRequired,
+  validatePaymentRequirementsResponse,
+  validateSettleResponse
+} from './validate.js'
+
+const requirements: PaymentRequirements = {
+  scheme: 'exact',
+  network: 'eip155:84532',
+  amount: '10000',
+  asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+  maxTimeoutSeconds: 300,
+  extra: { name: 'USDC', version: '2' }
+}
+
+describe('validators', () => {
+  it('accepts well-formed v1 and v2 structures', () => {
+    expect(
+      validatePaymentRequired({
+        x402Version: 2,
+        resource: { url: 'https://api.example.com/premium-data' },
+        accepts: [requirements]
+      }).ok
+    ).toBe(true)
+    expect(
+      validatePaymentRequirementsResponse({
+        x402Version: 1,
+        error: 'X-PAYMENT header is required',
+        accepts: [
+          {
+            scheme: 'exact',
+            network: 'base-sepolia',
+            maxAmountRequired: '10000',
+            asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+            payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+            resource: 'https://api.example.com/premium-data',
+            description: '',
+            maxTimeoutSeconds: 60
+          }
+        ]
+      }).ok
+    ).toBe(true)
+    expect(
+      validatePaymentPayload({
+        x402Version: 2,
+        accepted: requirements,
+        payload: { signature: '0x' }
+      }).ok
+    ).toBe(true)
+    expect(
+      validateSettleResponse({
+        success: false,
+        errorReason: 'insufficient_funds',
+        transaction: '',
+        network: 'eip155:84532'
+      }).ok
+    ).toBe(true)
+  })
+
+  it('reports structured error paths', () => {
+    const result = validatePaymentRequired({
+      x402Version: 2,
+      resource: {},
+      accepts: [{ ...requirements, scheme: 'stream', amount: '1e6' }]
+    })
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.issues.map((issue) => issue.path)).toEqual([
+      '$.resource.url',
+      '$.accepts[0].scheme',
+      '$.accepts[0].amount'
+    ])
+
+    const missing = validatePaymentRequirementsResponse({ x402Version: 1 })
+    expect(!missing.ok && missing.issues).toEqual([
+      { path: '$.accepts', message: 'expected an array, got undefined' }
+    ])
+  })
+
+  it('guards signing and the compact converters', async () => {
+    await expect(
+      payingKit.getPayUrl({
+        x402Version: 2,
+        resource: { url: 'https://api.example.com/premium-data' },
+        accepts: [{ ...requirements, amount: 'ten' }]
+      })
+    ).rejects.toBeInstanceOf(InvalidRequirementsError)
+
+    expect(() =>
+      toPaymentRequirements({
+        s: 'exact',
+        n: 'eip155:84532',
+        am: '-1',
+        a: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        p: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+        mts: 300
+      })
+    ).toThrow('$.am')
+
+    const err = (() => {
+      try {
+        toMessage({ pk: new Uint8Array(31), n: 1, p: { x: 1, a: [] } } as any)
+      } catch (err) {
+        return err as InvalidRequirementsError
+      }
+    })()
+    expect(err?.issues.map((issue) => issue.path)).toEqual(['$.pk', '$.p.a'])
+  })
+})
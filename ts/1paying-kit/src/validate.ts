@@ -0,0 +1,739 @@
+import type {
+  EvmExactPayload,
+  Extensions,
+  ExtensionsCompact,
+  IcpPayload,
+  Message,
+  MessageCompact,
+  PaymentPayload,
+  PaymentPayloadV1,
+  PaymentRequired,
+  PaymentRequiredCompact,
+  PaymentRequirements,
+  PaymentRequirementsCompact,
+  PaymentRequirementsCompactV1,
+  PaymentRequirementsResponse,
+  PaymentRequirementsResponseCompactV1,
+  PaymentRequirementsV1,
+  ResourceInfo,
+  ResourceInfoCompact,
+  SettleResponse,
+  SolanaPayload,
+  TransactionState,
+  UpdatePaymentTxStatus,
+  VerifyResponse,
+  X402Request
+} from './types.js'
+
+/**
+ * Describes why a value failed validation.
+ */
+export interface ValidationIssue {
+  /** The path of the invalid value, e.g. `$.accepts[0].amount`. */
+  path: string
+  /** A human-readable description of the problem. */
+  message: string
+}
+
+/**
+ * The result of validating an untrusted value.
+ * @template T The type the value was validated against.
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] }
+
+/**
+ * A validator for an untrusted value.
+ * @template T The type the value is validated against.
+ */
+export type Validator<T> = (
+  value: unknown,
+  path?: string
+) => ValidationResult<T>
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void
+
+const SCHEMES = ['exact', 'upto']
+const TX_STATUSES = ['pending', 'accepted', 'completed', 'error']
+const UPDATE_TX_STATUSES = ['finalized', 'failed']
+
+/**
+ * Formats validation issues as a single line, e.g. for an error message.
+ * @param issues The validation issues.
+ * @returns The formatted issues.
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')
+}
+
+/** Validates a `PaymentRequirements` (x402 v2). */
+export const validatePaymentRequirements: Validator<PaymentRequirements> =
+  validator(checkPaymentRequirements)
+
+/** Validates a `PaymentRequirementsV1` (x402 v1). */
+export const validatePaymentRequirementsV1: Validator<PaymentRequirementsV1> =
+  validator(checkPaymentRequirementsV1)
+
+/** Validates a `PaymentRequirementsCompact`. */
+export const validatePaymentRequirementsCompact: Validator<PaymentRequirementsCompact> =
+  validator(checkPaymentRequirementsCompact)
+
+/** Validates a `PaymentRequirementsCompactV1`. */
+export const validatePaymentRequirementsCompactV1: Validator<PaymentRequirementsCompactV1> =
+  validator(checkPaymentRequirementsCompactV1)
+
+/** Validates a `ResourceInfo`. */
+export const validateResourceInfo: Validator<ResourceInfo> =
+  validator(checkResourceInfo)
+
+/** Validates a `ResourceInfoCompact`. */
+export const validateResourceInfoCompact: Validator<ResourceInfoCompact> =
+  validator(checkResourceInfoCompact)
+
+/** Validates an `Extensions`. */
+export const validateExtensions: Validator<Extensions> =
+  validator(checkExtensions)
+
+/** Validates an `ExtensionsCompact`. */
+export const validateExtensionsCompact: Validator<ExtensionsCompact> =
+  validator(checkExtensionsCompact)
+
+/** Validates a `PaymentRequired` (x402 v2). */
+export const validatePaymentRequired: Validator<PaymentRequired> =
+  validator(checkPaymentRequired)
+
+/** Validates a `PaymentRequiredCompact`. */
+export const validatePaymentRequiredCompact: Validator<PaymentRequiredCompact> =
+  validator(checkPaymentRequiredCompact)
+
+/** Validates a `PaymentRequirementsResponse` (x402 v1). */
+export const validatePaymentRequirementsResponse: Validator<PaymentRequirementsResponse> =
+  validator(checkPaymentRequirementsResponse)
+
+/** Validates a `PaymentRequirementsResponseCompactV1`. */
+export const validatePaymentRequirementsResponseCompactV1: Validator<PaymentRequirementsResponseCompactV1> =
+  validator(checkPaymentRequirementsResponseCompactV1)
+
+/**
+ * Validates the body of a 402 response, either a `PaymentRequired` (x402 v2)
+ * or a `PaymentRequirementsResponse` (x402 v1).
+ */
+export const validatePaymentRequiredAny: Validator<
+  PaymentRequired | PaymentRequirementsResponse
+> = validator((value, path, issues) =>
+  isV2PaymentRequired(value)
+    ? checkPaymentRequired(value, path, issues)
+    : checkPaymentRequirementsResponse(value, path, issues)
+)
+
+/** Validates a `Message` with a `PaymentRequired` or `PaymentRequirementsResponse` payload. */
+export const validateMessage: Validator<
+  Message<PaymentRequired | PaymentRequirementsResponse>
+> = validator((value, path, issues) => {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectBytes(value, 'pubkey', path, issues, 32)
+  expectInteger(value, 'nonce', path, issues, 0)
+  const payload = value['payload']
+  if (isV2PaymentRequired(payload)) {
+    checkPaymentRequired(payload, `${path}.payload`, issues)
+  } else {
+    checkPaymentRequirementsResponse(payload, `${path}.payload`, issues)
+  }
+})
+
+/** Validates a `MessageCompact` with a compact v1 or v2 payload. */
+export const validateMessageCompact: Validator<
+  MessageCompact<PaymentRequiredCompact | PaymentRequirementsResponseCompactV1>
+> = validator((value, path, issues) => {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectBytes(value, 'pk', path, issues, 32)
+  expectInteger(value, 'n', path, issues, 0)
+  const payload = value['p']
+  if (isObject(payload) && 'r' in payload) {
+    checkPaymentRequiredCompact(payload, `${path}.p`, issues)
+  } else {
+    checkPaymentRequirementsResponseCompactV1(payload, `${path}.p`, issues)
+  }
+})
+
+/** Validates a `PaymentPayload` (x402 v2). The scheme-specific payload is not inspected. */
+export const validatePaymentPayload: Validator<PaymentPayload<unknown>> =
+  validator(checkPaymentPayload)
+
+/** Validates a `PaymentPayloadV1` (x402 v1). The scheme-specific payload is not inspected. */
+export const validatePaymentPayloadV1: Validator<PaymentPayloadV1<unknown>> =
+  validator(checkPaymentPayloadV1)
+
+/** Validates the payload of the `exact` scheme on EVM networks. */
+export const validateEvmExactPayload: Validator<EvmExactPayload> = validator(
+  (value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    expectString(value, 'signature', path, issues)
+    const auth = value['authorization']
+    const authPath = `${path}.authorization`
+    if (expectObject(auth, authPath, issues)) {
+      expectString(auth, 'from', authPath, issues)
+      expectString(auth, 'to', authPath, issues)
+      expectAmount(auth, 'value', authPath, issues)
+      expectAmount(auth, 'validAfter', authPath, issues)
+      expectAmount(auth, 'validBefore', authPath, issues)
+      expectString(auth, 'nonce', authPath, issues)
+    }
+  }
+)
+
+/** Validates the payload of the `exact` scheme on Solana networks. */
+export const validateSolanaPayload: Validator<SolanaPayload> = validator(
+  (value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    expectString(value, 'transaction', path, issues)
+  }
+)
+
+/** Validates the payload of the `exact` scheme on ICP networks. */
+export const validateIcpPayload: Validator<IcpPayload> = validator(
+  (value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    expectString(value, 'signature', path, issues)
+    const auth = value['authorization']
+    const authPath = `${path}.authorization`
+    if (expectObject(auth, authPath, issues)) {
+      expectOneOf(auth, 'scheme', authPath, issues, SCHEMES)
+      expectString(auth, 'asset', authPath, issues)
+      expectString(auth, 'to', authPath, issues)
+      expectAmount(auth, 'value', authPath, issues)
+      expectInteger(auth, 'expiresAt', authPath, issues, 0)
+      expectInteger(auth, 'nonce', authPath, issues, 0)
+    }
+  }
+)
+
+/** Validates an `X402Request` sent to a facilitator. */
+export const validateX402Request: Validator<X402Request<unknown>> = validator(
+  (value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    const payload = value['paymentPayload']
+    if (isObject(payload) && 'accepted' in payload) {
+      checkPaymentPayload(payload, `${path}.paymentPayload`, issues)
+    } else {
+      checkPaymentPayloadV1(payload, `${path}.paymentPayload`, issues)
+    }
+    const req = value['paymentRequirements']
+    if (isObject(req) && 'maxAmountRequired' in req) {
+      checkPaymentRequirementsV1(req, `${path}.paymentRequirements`, issues)
+    } else {
+      checkPaymentRequirements(req, `${path}.paymentRequirements`, issues)
+    }
+  }
+)
+
+/** Validates a `VerifyResponse`. */
+export const validateVerifyResponse: Validator<VerifyResponse> = validator(
+  (value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    expectBoolean(value, 'isValid', path, issues)
+    expectString(value, 'payer', path, issues, { optional: true })
+    expectString(value, 'invalidReason', path, issues, { optional: true })
+  }
+)
+
+/** Validates a `SettleResponse`. */
+export const validateSettleResponse: Validator<SettleResponse> = validator(
+  (value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    expectBoolean(value, 'success', path, issues)
+    expectString(value, 'errorReason', path, issues, { optional: true })
+    // The transaction is empty when the settlement failed.
+    expectString(value, 'transaction', path, issues, { allowEmpty: true })
+    expectString(value, 'network', path, issues)
+    expectString(value, 'payer', path, issues, { optional: true })
+    if (value['amount'] !== undefined) {
+      expectAmount(value, 'amount', path, issues)
+    }
+  }
+)
+
+/** Validates a `TransactionState`. */
+export const validateTransactionState: Validator<TransactionState> = validator(
+  (value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    expectOneOf(value, 'status', path, issues, TX_STATUSES)
+    expectString(value, 'result', path, issues, { optional: true })
+    const error = value['error']
+    if (error !== undefined && expectObject(error, `${path}.error`, issues)) {
+      expectNumber(error, 'code', `${path}.error`, issues)
+      expectString(error, 'message', `${path}.error`, issues, {
+        allowEmpty: true
+      })
+    }
+  }
+)
+
+/** Validates an `UpdatePaymentTxStatus`. */
+export const validateUpdatePaymentTxStatus: Validator<UpdatePaymentTxStatus> =
+  validator((value, path, issues) => {
+    if (!expectObject(value, path, issues)) {
+      return
+    }
+    expectString(value, 'tx', path, issues)
+    expectOneOf(value, 'status', path, issues, UPDATE_TX_STATUSES)
+  })
+
+function validator<T>(check: Check): Validator<T> {
+  return (value: unknown, path = '$'): ValidationResult<T> => {
+    const issues: ValidationIssue[] = []
+    check(value, path, issues)
+    return issues.length === 0
+      ? { ok: true, value: value as T }
+      : { ok: false, issues }
+  }
+}
+
+function isV2PaymentRequired(value: unknown): boolean {
+  return isObject(value) && isObject(value['resource'])
+}
+
+function checkPaymentRequirements(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectOneOf(value, 'scheme', path, issues, SCHEMES)
+  expectString(value, 'network', path, issues)
+  expectAmount(value, 'amount', path, issues)
+  expectString(value, 'asset', path, issues)
+  expectString(value, 'payTo', path, issues)
+  expectInteger(value, 'maxTimeoutSeconds', path, issues, 1)
+  expectPlainObject(value, 'extra', path, issues, true)
+}
+
+function checkPaymentRequirementsV1(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectOneOf(value, 'scheme', path, issues, SCHEMES)
+  expectString(value, 'network', path, issues)
+  expectAmount(value, 'maxAmountRequired', path, issues)
+  expectString(value, 'asset', path, issues)
+  expectString(value, 'payTo', path, issues)
+  expectString(value, 'resource', path, issues)
+  expectString(value, 'description', path, issues, { allowEmpty: true })
+  expectString(value, 'mimeType', path, issues, {
+    optional: true,
+    allowEmpty: true
+  })
+  expectPlainObject(value, 'outputSchema', path, issues, true)
+  expectInteger(value, 'maxTimeoutSeconds', path, issues, 1)
+  expectPlainObject(value, 'extra', path, issues, true)
+}
+
+function checkPaymentRequirementsCompact(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectOneOf(value, 's', path, issues, SCHEMES)
+  expectString(value, 'n', path, issues)
+  expectAmount(value, 'am', path, issues)
+  expectString(value, 'a', path, issues)
+  expectString(value, 'p', path, issues)
+  expectInteger(value, 'mts', path, issues, 1)
+  expectPlainObject(value, 'ex', path, issues, true)
+}
+
+function checkPaymentRequirementsCompactV1(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectOneOf(value, 's', path, issues, SCHEMES)
+  expectString(value, 'n', path, issues)
+  expectAmount(value, 'mar', path, issues)
+  expectString(value, 'a', path, issues)
+  expectString(value, 'p', path, issues)
+  expectString(value, 'r', path, issues)
+  expectString(value, 'd', path, issues, { allowEmpty: true })
+  expectString(value, 'mt', path, issues, { optional: true, allowEmpty: true })
+  expectPlainObject(value, 'os', path, issues, true)
+  expectInteger(value, 'mts', path, issues, 1)
+  expectPlainObject(value, 'ex', path, issues, true)
+}
+
+function checkResourceInfo(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectString(value, 'url', path, issues)
+  expectString(value, 'description', path, issues, {
+    optional: true,
+    allowEmpty: true
+  })
+  expectString(value, 'mimeType', path, issues, {
+    optional: true,
+    allowEmpty: true
+  })
+}
+
+function checkResourceInfoCompact(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectString(value, 'u', path, issues)
+  expectString(value, 'd', path, issues, { optional: true, allowEmpty: true })
+  expectString(value, 'm', path, issues, { optional: true, allowEmpty: true })
+}
+
+function checkExtensions(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectPlainObject(value, 'info', path, issues)
+  expectPlainObject(value, 'schema', path, issues)
+}
+
+function checkExtensionsCompact(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectPlainObject(value, 'i', path, issues)
+  expectPlainObject(value, 's', path, issues)
+}
+
+function checkPaymentRequired(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectInteger(value, 'x402Version', path, issues, 1)
+  expectString(value, 'error', path, issues, {
+    optional: true,
+    allowEmpty: true
+  })
+  checkResourceInfo(value['resource'], `${path}.resource`, issues)
+  expectArray(value, 'accepts', path, issues, checkPaymentRequirements)
+  if (value['extensions'] !== undefined) {
+    checkExtensions(value['extensions'], `${path}.extensions`, issues)
+  }
+}
+
+function checkPaymentRequiredCompact(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectInteger(value, 'x', path, issues, 1)
+  expectString(value, 'e', path, issues, { optional: true, allowEmpty: true })
+  checkResourceInfoCompact(value['r'], `${path}.r`, issues)
+  expectArray(value, 'a', path, issues, checkPaymentRequirementsCompact)
+  if (value['ex'] !== undefined) {
+    checkExtensionsCompact(value['ex'], `${path}.ex`, issues)
+  }
+}
+
+function checkPaymentRequirementsResponse(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectInteger(value, 'x402Version', path, issues, 1)
+  // Servers often omit the error message, so it is not required.
+  expectString(value, 'error', path, issues, {
+    optional: true,
+    allowEmpty: true
+  })
+  expectArray(value, 'accepts', path, issues, checkPaymentRequirementsV1)
+}
+
+function checkPaymentRequirementsResponseCompactV1(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectInteger(value, 'x', path, issues, 1)
+  expectString(value, 'e', path, issues, { optional: true, allowEmpty: true })
+  expectArray(value, 'a', path, issues, checkPaymentRequirementsCompactV1)
+}
+
+function checkPaymentPayload(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectInteger(value, 'x402Version', path, issues, 1)
+  if (value['resource'] !== undefined) {
+    checkResourceInfo(value['resource'], `${path}.resource`, issues)
+  }
+  checkPaymentRequirements(value['accepted'], `${path}.accepted`, issues)
+  expectPresent(value, 'payload', path, issues)
+  if (value['extensions'] !== undefined) {
+    checkExtensions(value['extensions'], `${path}.extensions`, issues)
+  }
+}
+
+function checkPaymentPayloadV1(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!expectObject(value, path, issues)) {
+    return
+  }
+  expectInteger(value, 'x402Version', path, issues, 1)
+  expectString(value, 'scheme', path, issues)
+  expectString(value, 'network', path, issues)
+  expectPresent(value, 'payload', path, issues)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function expectObject(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is Record<string, unknown> {
+  if (isObject(value)) {
+    return true
+  }
+  issues.push({ path, message: `expected an object, got ${describe(value)}` })
+  return false
+}
+
+function expectPresent(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (obj[key] === undefined || obj[key] === null) {
+    issues.push({ path: `${path}.${key}`, message: 'is required' })
+  }
+}
+
+function expectString(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  opts: { optional?: boolean; allowEmpty?: boolean } = {}
+): void {
+  const val = obj[key]
+  if (val === undefined && opts.optional) {
+    return
+  }
+  if (typeof val !== 'string') {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected a string, got ${describe(val)}`
+    })
+  } else if (!opts.allowEmpty && val.trim() === '') {
+    issues.push({ path: `${path}.${key}`, message: 'must not be empty' })
+  }
+}
+
+function expectOneOf(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  values: string[]
+): void {
+  const val = obj[key]
+  if (typeof val !== 'string' || !values.includes(val)) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected one of ${values.map((v) => `"${v}"`).join(', ')}, got ${describe(val)}`
+    })
+  }
+}
+
+function expectAmount(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  const val = obj[key]
+  if (typeof val !== 'string' || !/^\d+$/.test(val)) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected an amount in atomic units as a string of digits, got ${describe(val)}`
+    })
+  }
+}
+
+function expectNumber(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  const val = obj[key]
+  if (typeof val !== 'number' || !Number.isFinite(val)) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected a number, got ${describe(val)}`
+    })
+  }
+}
+
+function expectInteger(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  min: number
+): void {
+  const val = obj[key]
+  if (!Number.isSafeInteger(val) || (val as number) < min) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected an integer >= ${min}, got ${describe(val)}`
+    })
+  }
+}
+
+function expectBoolean(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  const val = obj[key]
+  if (typeof val !== 'boolean') {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected a boolean, got ${describe(val)}`
+    })
+  }
+}
+
+function expectBytes(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  length: number
+): void {
+  const val = obj[key]
+  if (!(val instanceof Uint8Array) || val.length !== length) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected ${length} bytes, got ${describe(val)}`
+    })
+  }
+}
+
+function expectPlainObject(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  optional = false
+): void {
+  const val = obj[key]
+  if (val === undefined && optional) {
+    return
+  }
+  expectObject(val, `${path}.${key}`, issues)
+}
+
+function expectArray(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  check: Check
+): void {
+  const val = obj[key]
+  if (!Array.isArray(val)) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `expected an array, got ${describe(val)}`
+    })
+  } else if (val.length === 0) {
+    issues.push({ path: `${path}.${key}`, message: 'must not be empty' })
+  } else {
+    val.forEach((item, i) => check(item, `${path}.${key}[${i}]`, issues))
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  if (value instanceof Uint8Array) {
+    return `${value.length} bytes`
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 32 ? `${value.slice(0, 32)}…` : value)
+  }
+  return typeof value === 'object' ? 'object' : String(value)
+}